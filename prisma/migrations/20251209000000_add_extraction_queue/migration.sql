@@ -0,0 +1,33 @@
+-- CreateEnum
+CREATE TYPE "ExtractionStatus" AS ENUM ('PENDING', 'RUNNING', 'DONE', 'FAILED');
+
+-- AlterTable: existing articles were extracted inline, so they start as DONE
+ALTER TABLE "Article" ADD COLUMN "extractionStatus" "ExtractionStatus" NOT NULL DEFAULT 'DONE',
+ADD COLUMN "extractionError" TEXT;
+
+-- CreateTable
+CREATE TABLE "ExtractionJob" (
+    "id" TEXT NOT NULL,
+    "status" "ExtractionStatus" NOT NULL DEFAULT 'PENDING',
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "maxAttempts" INTEGER NOT NULL DEFAULT 5,
+    "overrides" JSONB,
+    "lastError" TEXT,
+    "runAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "lockedAt" TIMESTAMP(3),
+    "finishedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "articleId" TEXT NOT NULL,
+
+    CONSTRAINT "ExtractionJob_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ExtractionJob_status_runAt_idx" ON "ExtractionJob"("status", "runAt");
+
+-- CreateIndex
+CREATE INDEX "ExtractionJob_articleId_idx" ON "ExtractionJob"("articleId");
+
+-- AddForeignKey
+ALTER TABLE "ExtractionJob" ADD CONSTRAINT "ExtractionJob_articleId_fkey" FOREIGN KEY ("articleId") REFERENCES "Article"("id") ON DELETE CASCADE ON UPDATE CASCADE;
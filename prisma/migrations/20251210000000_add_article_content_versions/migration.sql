@@ -0,0 +1,21 @@
+-- CreateTable
+CREATE TABLE "ArticleContentVersion" (
+    "id" TEXT NOT NULL,
+    "version" INTEGER NOT NULL,
+    "title" TEXT,
+    "content" TEXT,
+    "wordCount" INTEGER,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "articleId" TEXT NOT NULL,
+
+    CONSTRAINT "ArticleContentVersion_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ArticleContentVersion_articleId_idx" ON "ArticleContentVersion"("articleId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ArticleContentVersion_articleId_version_key" ON "ArticleContentVersion"("articleId", "version");
+
+-- AddForeignKey
+ALTER TABLE "ArticleContentVersion" ADD CONSTRAINT "ArticleContentVersion_articleId_fkey" FOREIGN KEY ("articleId") REFERENCES "Article"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,61 @@
+-- CreateTable
+CREATE TABLE "Feed" (
+    "id" TEXT NOT NULL,
+    "url" TEXT NOT NULL,
+    "title" TEXT,
+    "siteUrl" TEXT,
+    "description" TEXT,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "pollInterval" INTEGER NOT NULL DEFAULT 3600,
+    "nextPollAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "lastFetchedAt" TIMESTAMP(3),
+    "lastError" TEXT,
+    "etag" TEXT,
+    "lastModified" TEXT,
+    "tags" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "collectionId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "userId" TEXT NOT NULL,
+
+    CONSTRAINT "Feed_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "FeedEntry" (
+    "id" TEXT NOT NULL,
+    "guid" TEXT NOT NULL,
+    "url" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "feedId" TEXT NOT NULL,
+    "articleId" TEXT,
+
+    CONSTRAINT "FeedEntry_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Feed_userId_idx" ON "Feed"("userId");
+
+-- CreateIndex
+CREATE INDEX "Feed_isActive_nextPollAt_idx" ON "Feed"("isActive", "nextPollAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Feed_userId_url_key" ON "Feed"("userId", "url");
+
+-- CreateIndex
+CREATE INDEX "FeedEntry_feedId_idx" ON "FeedEntry"("feedId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "FeedEntry_feedId_guid_key" ON "FeedEntry"("feedId", "guid");
+
+-- AddForeignKey
+ALTER TABLE "Feed" ADD CONSTRAINT "Feed_collectionId_fkey" FOREIGN KEY ("collectionId") REFERENCES "Collection"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Feed" ADD CONSTRAINT "Feed_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "FeedEntry" ADD CONSTRAINT "FeedEntry_feedId_fkey" FOREIGN KEY ("feedId") REFERENCES "Feed"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "FeedEntry" ADD CONSTRAINT "FeedEntry_articleId_fkey" FOREIGN KEY ("articleId") REFERENCES "Article"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN "inboxToken" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "User_inboxToken_key" ON "User"("inboxToken");
@@ -0,0 +1,9 @@
+-- URL hashes are now unique per user instead of globally.
+-- Existing hashes were computed from the raw URL; run `npm run rehash-urls`
+-- after deploying to recompute them from the canonical URL.
+
+-- DropIndex
+DROP INDEX "Article_urlHash_key";
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Article_userId_urlHash_key" ON "Article"("userId", "urlHash");
@@ -0,0 +1,23 @@
+-- AlterTable
+ALTER TABLE "Article" ADD COLUMN "deletedAt" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "Collection" ADD COLUMN "deletedAt" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "Highlight" ADD COLUMN "deletedAt" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "Note" ADD COLUMN "deletedAt" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "Article_deletedAt_idx" ON "Article"("deletedAt");
+
+-- CreateIndex
+CREATE INDEX "Collection_deletedAt_idx" ON "Collection"("deletedAt");
+
+-- CreateIndex
+CREATE INDEX "Highlight_deletedAt_idx" ON "Highlight"("deletedAt");
+
+-- CreateIndex
+CREATE INDEX "Note_deletedAt_idx" ON "Note"("deletedAt");
@@ -0,0 +1,49 @@
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN "archiveImages" BOOLEAN NOT NULL DEFAULT false;
+
+-- CreateTable
+CREATE TABLE "StoredImage" (
+    "id" TEXT NOT NULL,
+    "hash" TEXT NOT NULL,
+    "fileUrl" TEXT NOT NULL,
+    "mimeType" TEXT NOT NULL,
+    "size" INTEGER NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "userId" TEXT NOT NULL,
+
+    CONSTRAINT "StoredImage_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "ArticleImage" (
+    "id" TEXT NOT NULL,
+    "sourceUrl" TEXT NOT NULL,
+    "articleId" TEXT NOT NULL,
+    "imageId" TEXT NOT NULL,
+
+    CONSTRAINT "ArticleImage_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "StoredImage_userId_idx" ON "StoredImage"("userId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "StoredImage_userId_hash_key" ON "StoredImage"("userId", "hash");
+
+-- CreateIndex
+CREATE INDEX "ArticleImage_articleId_idx" ON "ArticleImage"("articleId");
+
+-- CreateIndex
+CREATE INDEX "ArticleImage_imageId_idx" ON "ArticleImage"("imageId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ArticleImage_articleId_sourceUrl_key" ON "ArticleImage"("articleId", "sourceUrl");
+
+-- AddForeignKey
+ALTER TABLE "StoredImage" ADD CONSTRAINT "StoredImage_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ArticleImage" ADD CONSTRAINT "ArticleImage_articleId_fkey" FOREIGN KEY ("articleId") REFERENCES "Article"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ArticleImage" ADD CONSTRAINT "ArticleImage_imageId_fkey" FOREIGN KEY ("imageId") REFERENCES "StoredImage"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,4 @@
+-- AlterTable
+ALTER TABLE "Article" ADD COLUMN "snapshotUrl" TEXT,
+ADD COLUMN "snapshotSize" INTEGER,
+ADD COLUMN "snapshotAt" TIMESTAMP(3);
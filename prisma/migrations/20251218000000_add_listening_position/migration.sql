@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "Article" ADD COLUMN "listeningPosition" TEXT,
+ADD COLUMN "listenedAt" TIMESTAMP(3);
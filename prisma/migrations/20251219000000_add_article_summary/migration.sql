@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "Article" ADD COLUMN "summary" TEXT,
+ADD COLUMN "keySentences" TEXT[] DEFAULT ARRAY[]::TEXT[];
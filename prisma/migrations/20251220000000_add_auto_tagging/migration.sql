@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN "autoTagArticles" BOOLEAN NOT NULL DEFAULT false;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "Collection" ADD COLUMN "query" JSONB;
@@ -0,0 +1,10 @@
+-- AlterTable
+ALTER TABLE "ExtractionJob" ADD COLUMN "isInitial" BOOLEAN NOT NULL DEFAULT false;
+
+-- Jobs still waiting were queued when their article was saved unless the article already had content
+UPDATE "ExtractionJob" j
+SET "isInitial" = true
+FROM "Article" a
+WHERE a."id" = j."articleId"
+  AND j."status" IN ('PENDING', 'RUNNING')
+  AND a."content" IS NULL;
@@ -0,0 +1,54 @@
+import { PrismaClient } from '@prisma/client';
+import dotenv from 'dotenv';
+import { computeFingerprint } from '../src/services/fingerprint';
+
+dotenv.config();
+
+const prisma = new PrismaClient();
+
+const BATCH_SIZE = 100;
+
+// Calcula contentFingerprint dos artigos salvos antes da detecção de duplicados
+async function backfillFingerprints() {
+  try {
+    let cursor: string | undefined;
+    let updated = 0;
+
+    while (true) {
+      const articles = await prisma.article.findMany({
+        // Updated rows leave the filter, so page by id rather than by Prisma cursor
+        where: { contentFingerprint: null, content: { not: null }, ...(cursor ? { id: { gt: cursor } } : {}) },
+        select: { id: true, content: true },
+        orderBy: { id: 'asc' },
+        take: BATCH_SIZE,
+      });
+
+      if (articles.length === 0) {
+        break;
+      }
+      cursor = articles[articles.length - 1].id;
+
+      for (const article of articles) {
+        const contentFingerprint = computeFingerprint(article.content);
+        if (!contentFingerprint) {
+          continue;
+        }
+
+        await prisma.article.update({
+          where: { id: article.id },
+          data: { contentFingerprint },
+        });
+        updated++;
+      }
+    }
+
+    console.log(`✅ ${updated} artigo(s) com impressão digital calculada`);
+  } catch (error) {
+    console.error('Erro ao calcular impressões digitais:', error);
+    process.exit(1);
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+backfillFingerprints();
@@ -0,0 +1,54 @@
+import { PrismaClient } from '@prisma/client';
+import dotenv from 'dotenv';
+import { summarizeContent } from '../src/services/summarizer';
+
+dotenv.config();
+
+const prisma = new PrismaClient();
+
+const BATCH_SIZE = 100;
+
+// Gera o resumo extrativo dos artigos salvos antes dos resumos existirem
+async function backfillSummaries() {
+  try {
+    let cursor: string | undefined;
+    let updated = 0;
+
+    while (true) {
+      const articles = await prisma.article.findMany({
+        // Updated rows leave the filter, so page by id rather than by Prisma cursor
+        where: { summary: null, content: { not: null }, ...(cursor ? { id: { gt: cursor } } : {}) },
+        select: { id: true, content: true },
+        orderBy: { id: 'asc' },
+        take: BATCH_SIZE,
+      });
+
+      if (articles.length === 0) {
+        break;
+      }
+      cursor = articles[articles.length - 1].id;
+
+      for (const article of articles) {
+        const { summary, keySentences } = summarizeContent(article.content);
+        if (!summary) {
+          continue;
+        }
+
+        await prisma.article.update({
+          where: { id: article.id },
+          data: { summary, keySentences },
+        });
+        updated++;
+      }
+    }
+
+    console.log(`✅ ${updated} artigo(s) com resumo gerado`);
+  } catch (error) {
+    console.error('Erro ao gerar resumos:', error);
+    process.exit(1);
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+backfillSummaries();
@@ -0,0 +1,71 @@
+import crypto from 'crypto';
+import { PrismaClient } from '@prisma/client';
+import dotenv from 'dotenv';
+import { generateUrlHash } from '../src/services/contentExtractor';
+
+dotenv.config();
+
+const prisma = new PrismaClient();
+
+const BATCH_SIZE = 500;
+
+// Recalcula urlHash a partir da URL canônica (migração 20251213000000_scope_url_hash_per_user).
+// Roda a cada deploy (railway.json): só toca nos hashes antigos, calculados da URL crua,
+// e preserva os que vieram da <link rel="canonical"> da página.
+async function rehashUrls() {
+  try {
+    let cursor: string | undefined;
+    let updated = 0;
+    let duplicates = 0;
+
+    while (true) {
+      const articles = await prisma.article.findMany({
+        where: { url: { not: null } },
+        select: { id: true, url: true, urlHash: true, userId: true },
+        orderBy: { id: 'asc' },
+        take: BATCH_SIZE,
+        ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {}),
+      });
+
+      if (articles.length === 0) {
+        break;
+      }
+      cursor = articles[articles.length - 1].id;
+
+      for (const article of articles) {
+        const legacyHash = crypto.createHash('sha256').update(article.url!).digest('hex');
+        const urlHash = generateUrlHash(article.url!);
+        if (article.urlHash !== legacyHash || urlHash === legacyHash) {
+          continue;
+        }
+
+        // Another article of the same user already has this canonical URL:
+        // keep the old hash so both remain, and report it
+        const existing = await prisma.article.findFirst({
+          where: { userId: article.userId, urlHash },
+          select: { id: true },
+        });
+        if (existing) {
+          duplicates++;
+          console.log(`Duplicado: ${article.id} (${article.url}) = ${existing.id}`);
+          continue;
+        }
+
+        await prisma.article.update({
+          where: { id: article.id },
+          data: { urlHash },
+        });
+        updated++;
+      }
+    }
+
+    console.log(`✅ ${updated} artigo(s) atualizado(s), ${duplicates} duplicado(s) mantido(s)`);
+  } catch (error) {
+    console.error('Erro ao recalcular hashes:', error);
+    process.exit(1);
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+rehashUrls();
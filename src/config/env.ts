@@ -20,5 +20,23 @@ export const env = {
   cloudflareR2SecretAccessKey: process.env.CLOUDFLARE_R2_SECRET_ACCESS_KEY,
   cloudflareR2BucketName: process.env.CLOUDFLARE_R2_BUCKET_NAME,
   cloudflareR2PublicUrl: process.env.CLOUDFLARE_R2_PUBLIC_URL,
+  ingestionWorkerEnabled: process.env.INGESTION_WORKER_ENABLED !== "false",
+  ingestionPollInterval: Number(process.env.INGESTION_POLL_INTERVAL ?? 5000),
+  ingestionMaxAttempts: Number(process.env.INGESTION_MAX_ATTEMPTS ?? 5),
+  feedPollerEnabled: process.env.FEED_POLLER_ENABLED !== "false",
+  feedPollerInterval: Number(process.env.FEED_POLLER_INTERVAL ?? 60000),
+  smtpEnabled: process.env.SMTP_ENABLED === "true",
+  smtpPort: Number(process.env.SMTP_PORT ?? 2525),
+  inboxDomain: process.env.INBOX_DOMAIN ?? "localhost",
+  trashRetentionDays: Number(process.env.TRASH_RETENTION_DAYS ?? 30),
+  trashPurgeEnabled: process.env.TRASH_PURGE_ENABLED !== "false",
+  trashPurgeInterval: Number(process.env.TRASH_PURGE_INTERVAL ?? 3600000),
+  imageArchiveEnabled: process.env.IMAGE_ARCHIVE_ENABLED !== "false",
+  imageArchiveMaxImageSize: Number(process.env.IMAGE_ARCHIVE_MAX_IMAGE_SIZE ?? 5 * 1024 * 1024),
+  imageArchiveMaxPerArticle: Number(process.env.IMAGE_ARCHIVE_MAX_PER_ARTICLE ?? 50),
+  imageArchiveUserQuota: Number(process.env.IMAGE_ARCHIVE_USER_QUOTA ?? 500 * 1024 * 1024),
+  snapshotEnabled: process.env.SNAPSHOT_ENABLED !== "false",
+  snapshotMaxSize: Number(process.env.SNAPSHOT_MAX_SIZE ?? 25 * 1024 * 1024),
+  snapshotMaxResourceSize: Number(process.env.SNAPSHOT_MAX_RESOURCE_SIZE ?? 5 * 1024 * 1024),
 };
 
@@ -18,6 +18,9 @@ export const authToken = async (
 
     if (authHeader?.startsWith("Bearer ")) {
       token = authHeader.substring("Bearer ".length).trim();
+    } else if (authHeader?.startsWith("Token ")) {
+      // Readwise-style header, used by clients of /api/readwise
+      token = authHeader.substring("Token ".length).trim();
     } else if (queryToken) {
       token = queryToken;
     }
@@ -0,0 +1,60 @@
+import { Router } from 'express';
+import multer from 'multer';
+import { authToken, AuthenticatedRequest } from '../../middleware/authToken';
+import { createBackup, readBackup, restoreBackup } from '../../services/accountBackup';
+
+const router = Router();
+
+// Backups carry every stored file, so the limit is higher than imports (500MB)
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: 500 * 1024 * 1024, // 500MB
+  },
+});
+
+// GET /account/backup - Baixar backup completo da conta (zip)
+router.get('/backup', authToken, async (req: AuthenticatedRequest, res, next) => {
+  try {
+    const userId = req.userId!;
+    const zip = await createBackup(userId);
+    const date = new Date().toISOString().slice(0, 10);
+
+    res.setHeader('Content-Type', 'application/zip');
+    res.setHeader('Content-Disposition', `attachment; filename="backup-${date}.zip"`);
+
+    zip
+      .generateNodeStream({ type: 'nodebuffer', streamFiles: true, compression: 'DEFLATE' })
+      .on('error', next)
+      .pipe(res);
+  } catch (error) {
+    next(error);
+  }
+});
+
+// POST /account/restore - Restaurar backup na conta (arquivo no campo "file")
+router.post('/restore', authToken, upload.single('file'), async (req: AuthenticatedRequest, res, next) => {
+  try {
+    const userId = req.userId!;
+
+    if (!req.file) {
+      return res.status(400).json({ error: 'Arquivo de backup é obrigatório' });
+    }
+
+    let backup;
+    try {
+      backup = await readBackup(req.file.buffer);
+    } catch (error) {
+      console.error('Error reading backup file:', error);
+      return res.status(400).json({ error: 'Arquivo de backup inválido' });
+    }
+
+    const report = await restoreBackup(userId, backup);
+
+    res.json({ data: report });
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
@@ -23,12 +23,13 @@ router.get('/', authToken, async (req: AuthenticatedRequest, res, next) => {
     ] = await Promise.all([
       // Total saved
       prisma.article.count({
-        where: { userId },
+        where: { userId, deletedAt: null },
       }),
       // Total read (reading or finished)
       prisma.article.count({
         where: {
           userId,
+          deletedAt: null,
           status: { in: ['READING', 'FINISHED'] },
         },
       }),
@@ -36,6 +37,7 @@ router.get('/', authToken, async (req: AuthenticatedRequest, res, next) => {
       prisma.article.count({
         where: {
           userId,
+          deletedAt: null,
           status: 'FINISHED',
         },
       }),
@@ -43,6 +45,7 @@ router.get('/', authToken, async (req: AuthenticatedRequest, res, next) => {
       prisma.article.count({
         where: {
           userId,
+          deletedAt: null,
           status: 'ARCHIVED',
         },
       }),
@@ -50,16 +53,17 @@ router.get('/', authToken, async (req: AuthenticatedRequest, res, next) => {
       prisma.article.count({
         where: {
           userId,
+          deletedAt: null,
           isFavorited: true,
         },
       }),
       // Total highlights
       prisma.highlight.count({
-        where: { userId },
+        where: { userId, deletedAt: null },
       }),
       // Total collections
       prisma.collection.count({
-        where: { userId },
+        where: { userId, deletedAt: null },
       }),
       // Total tags
       prisma.tag.count({
@@ -68,13 +72,14 @@ router.get('/', authToken, async (req: AuthenticatedRequest, res, next) => {
       // Articles by status
       prisma.article.groupBy({
         by: ['status'],
-        where: { userId },
+        where: { userId, deletedAt: null },
         _count: true,
       }),
       // Reading time today (sum of readingTime for articles read today)
       prisma.article.aggregate({
         where: {
           userId,
+          deletedAt: null,
           lastReadAt: {
             gte: new Date(new Date().setHours(0, 0, 0, 0)),
           },
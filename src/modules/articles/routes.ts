@@ -1,11 +1,36 @@
 import { Router } from 'express';
 import { z } from 'zod';
 import multer from 'multer';
+import { pipeline } from 'stream/promises';
 import { prisma } from '../../config/prisma';
 import { authToken, AuthenticatedRequest } from '../../middleware/authToken';
-import { extractContent, generateUrlHash, type ExtractedMetadata } from '../../services/contentExtractor';
-import { uploadFile, generateFileHash, deleteFile } from '../../services/storage';
-import { extractContentFromFile, isAllowedFileType } from '../../services/fileProcessor';
+import { env } from '../../config/env';
+import { extractContent, plainTitle, type ExtractedMetadata } from '../../services/contentExtractor';
+import { uploadFile, downloadFile, generateFileHash } from '../../services/storage';
+import { detectFileType, isAllowedFileType } from '../../services/fileProcessor';
+import {
+  archiveExtractedImages,
+  buildArticleData,
+  enqueueExtraction,
+  type ExtractionOverrides,
+} from '../../services/ingestionQueue';
+import { diffContent, replaceArticleContent } from '../../services/contentVersions';
+import { saveUrlArticle } from '../../services/articleIngestion';
+import { renderNetscapeBookmarks } from '../../services/exporters/netscape';
+import { renderEpub, epubFileName, MAX_EPUB_ARTICLES } from '../../services/exporters/epub';
+import { renderMarkdownVault } from '../../services/exporters/markdown';
+import { streamArticleExport, CSV_COLUMNS, type CsvColumn } from '../../services/exporters/streaming';
+import { buildArticleOrderBy, parseArticleFilter, splitList } from '../../services/articleFilters';
+import { listArticles, parseArticleListQuery } from '../../services/articleListing';
+import { runBulkAction } from '../../services/bulkActions';
+import { restoreArticle, trashArticles } from '../../services/trash';
+import { findDuplicates, mergeArticles, DEFAULT_MAX_DISTANCE } from '../../services/duplicates';
+import { archiveArticleImages } from '../../services/imageArchiver';
+import { captureSnapshot } from '../../services/snapshot';
+import { buildSpeechMap, hasToken } from '../../services/speech';
+import { summarizeContent } from '../../services/summarizer';
+import { suggestTags, DEFAULT_SUGGESTION_LIMIT } from '../../services/tagSuggestions';
+import { isSmartCollection, resolveArticleWhere, SMART_COLLECTION_ERROR } from '../../services/smartCollections';
 
 const router = Router();
 
@@ -29,6 +54,58 @@ const createArticleSchema = z.object({
   attributes: z.record(z.any()).optional(),
 });
 
+// Maximum articles affected by one bulk request
+const MAX_BULK_ITEMS = 1000;
+
+const bulkActionSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('setStatus'), status: z.enum(['UNREAD', 'READING', 'PAUSED', 'FINISHED', 'ARCHIVED']) }),
+  z.object({ type: z.literal('favorite'), isFavorited: z.boolean() }),
+  z.object({ type: z.literal('rate'), rating: z.number().int().min(0).max(5).nullable() }),
+  z.object({ type: z.literal('addTags'), tagIds: z.array(z.string()).min(1) }),
+  z.object({ type: z.literal('removeTags'), tagIds: z.array(z.string()).min(1) }),
+  z.object({ type: z.literal('addToCollection'), collectionId: z.string() }),
+  z.object({ type: z.literal('removeFromCollection'), collectionId: z.string() }),
+  z.object({ type: z.literal('delete') }),
+]);
+
+const bulkArticleSchema = z
+  .object({
+    ids: z.array(z.string()).min(1).max(MAX_BULK_ITEMS).optional(),
+    filter: z.record(z.any()).optional(), // Same parameters as GET /articles
+    action: bulkActionSchema,
+  })
+  .refine(body => (body.ids === undefined) !== (body.filter === undefined), {
+    message: 'Informe ids ou filter (apenas um deles)',
+  });
+
+const exportQuerySchema = z.object({
+  format: z.enum(['json', 'ndjson', 'csv', 'html', 'markdown']).default('json'),
+  columns: z.preprocess(splitList, z.array(z.enum(Object.keys(CSV_COLUMNS) as [CsvColumn, ...CsvColumn[]])).min(1).optional()),
+});
+
+const STREAM_EXPORT_FILES = {
+  json: { contentType: 'application/json', fileName: 'articles.json' },
+  ndjson: { contentType: 'application/x-ndjson', fileName: 'articles.ndjson' },
+  csv: { contentType: 'text/csv', fileName: 'articles.csv' },
+};
+
+const tagSuggestionsQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(50).default(DEFAULT_SUGGESTION_LIMIT),
+});
+
+const listeningPositionSchema = z.object({
+  tokenId: z.string().regex(/^ritl-w-\d+$/),
+});
+
+const epubExportSchema = z.object({
+  ids: z.array(z.string()).min(1).max(MAX_EPUB_ARTICLES),
+  title: z.string().min(1).optional(),
+});
+
+const mergeArticleSchema = z.object({
+  sourceId: z.string().min(1),
+});
+
 const updateArticleSchema = z.object({
   status: z.enum(['UNREAD', 'READING', 'PAUSED', 'FINISHED', 'ARCHIVED']).optional(),
   isFavorited: z.boolean().optional(),
@@ -43,6 +120,7 @@ const updateArticleSchema = z.object({
 
 // POST /articles - Criar artigo (pode ser público com token no body ou header)
 // Aceita tanto JSON (URL) quanto multipart/form-data (arquivo)
+// A extração do conteúdo é feita em segundo plano (ver extractionStatus)
 router.post('/', upload.single('file'), async (req, res, next) => {
   try {
     const file = req.file;
@@ -94,162 +172,100 @@ router.post('/', upload.single('file'), async (req, res, next) => {
       return res.status(400).json({ error: 'Deve fornecer uma URL ou um arquivo' });
     }
 
-    let url: string | undefined;
-    let urlHash: string | undefined;
-    let fileUrl: string | undefined;
-    let fileName: string | undefined;
-    let fileSize: number | undefined;
-    let fileType: string | undefined;
-    let fileHash: string | undefined;
-    let metadata: ExtractedMetadata;
-
-    if (file) {
-      // Process file upload
-      if (!isAllowedFileType(file.originalname, file.mimetype)) {
-        return res.status(400).json({ error: 'Tipo de arquivo não suportado' });
-      }
-
-      // Generate file hash for duplicate detection
-      fileHash = generateFileHash(file.buffer);
+    const attributes: Record<string, any> = {
+      ...(body.attributes ? (typeof body.attributes === 'string' ? JSON.parse(body.attributes) : body.attributes) : {}),
+    };
 
-      // Check for duplicate file
-      const existing = await prisma.article.findFirst({
-        where: {
-          fileHash: fileHash,
-          userId,
-        },
+    if (!file) {
+      // Process URL; extraction runs in the background worker
+      const result = await saveUrlArticle(userId, {
+        url: body.url,
+        contentType: body.contentType,
+        title: body.title,
+        description: body.description,
+        favicon: body.favicon,
+        coverImage: body.coverImage,
+        siteName: body.siteName,
+        content: body.content,
+        attributes,
       });
 
-      if (existing) {
+      if (!result.created) {
         return res.status(409).json({ 
-          error: 'Arquivo já existe',
-          data: existing,
+          error: 'Artigo já existe',
+          data: result.article,
         });
       }
 
-      // Upload file to Cloudflare R2
-      const uploadResult = await uploadFile(
-        file.buffer,
-        file.originalname,
-        file.mimetype,
-        userId
-      );
-
-      fileUrl = uploadResult.fileUrl;
-      fileName = uploadResult.fileName;
-      fileSize = uploadResult.fileSize;
-      fileType = file.mimetype;
-
-      // Extract content from file
-      try {
-        metadata = await extractContentFromFile(file.buffer, file.originalname, file.mimetype);
-      } catch (error) {
-        console.error('Error extracting content from file:', error);
-        // Delete uploaded file if content extraction fails
-        await deleteFile(fileUrl);
-        throw error;
-      }
+      return res.status(201).json({ data: result.article });
+    }
 
-      // Override with provided metadata if available
-      if (body.title) metadata.title = body.title;
-      if (body.description) metadata.description = body.description;
-      if (body.contentType) metadata.contentType = body.contentType;
-    } else {
-      // Process URL (existing behavior)
-      if (!body.url) {
-        return res.status(400).json({ error: 'URL é obrigatória quando nenhum arquivo é fornecido' });
-      }
-      
-      const articleUrl: string = body.url;
-      url = articleUrl;
+    // Process file upload
+    if (!isAllowedFileType(file.originalname, file.mimetype)) {
+      return res.status(400).json({ error: 'Tipo de arquivo não suportado' });
+    }
 
-      // Generate URL hash for duplicate detection
-      urlHash = generateUrlHash(articleUrl);
+    // Generate file hash for duplicate detection
+    const fileHash = generateFileHash(file.buffer);
 
-      // Check for duplicate
-      const existing = await prisma.article.findFirst({
-        where: {
-          urlHash,
-          userId,
-        },
-      });
+    // Check for duplicate file
+    const existing = await prisma.article.findFirst({
+      where: {
+        fileHash: fileHash,
+        userId,
+      },
+    });
 
-      if (existing) {
-        return res.status(409).json({ 
-          error: 'Artigo já existe',
-          data: existing,
-        });
-      }
+    // Uploading a file that is in the trash brings it back
+    if (existing?.deletedAt) {
+      const restored = await restoreArticle(existing);
+      return res.status(201).json({ data: restored });
+    }
 
-      // Extract content if not provided
-      if (body.title && body.description) {
-        // Use provided metadata
-        metadata = {
-          contentType: body.contentType || 'ARTICLE',
-          title: body.title,
-          description: body.description,
-          favicon: body.favicon,
-          coverImage: body.coverImage,
-          siteName: body.siteName,
-          content: body.content,
-        };
-      } else {
-        // Extract from URL
-        try {
-          metadata = await extractContent(articleUrl);
-        } catch (error) {
-          console.error('Error extracting content:', error);
-          // Use provided values or defaults
-          metadata = {
-            contentType: body.contentType || 'ARTICLE',
-            title: body.title || extractTitleFromUrl(articleUrl),
-            description: body.description,
-            favicon: body.favicon,
-            coverImage: body.coverImage,
-            siteName: body.siteName,
-            content: body.content,
-          };
-        }
-      }
+    if (existing) {
+      return res.status(409).json({ 
+        error: 'Arquivo já existe',
+        data: existing,
+      });
     }
 
-    // Merge attributes with extracted metadata
-    const attributes: Record<string, any> = {
-      ...(body.attributes ? (typeof body.attributes === 'string' ? JSON.parse(body.attributes) : body.attributes) : {}),
+    // Upload file to Cloudflare R2
+    const uploadResult = await uploadFile(
+      file.buffer,
+      file.originalname,
+      file.mimetype,
+      userId
+    );
+
+    // Content is read from the stored file by the worker;
+    // provided metadata keeps overriding what is found in the file
+    const overrides: ExtractionOverrides = {
+      title: body.title,
+      description: body.description,
+      contentType: body.contentType,
     };
-    
-    if ('author' in metadata && metadata.author) {
-      attributes.author = metadata.author;
-    }
-    if ('publishedDate' in metadata && metadata.publishedDate) {
-      attributes.publishedDate = metadata.publishedDate;
-    }
-    if ('images' in metadata && Array.isArray(metadata.images) && metadata.images.length > 0) {
-      attributes.images = metadata.images;
-    }
 
     // Create article
     const article = await prisma.article.create({
       data: {
-        ...(url ? { url } : {}),
-        ...(urlHash ? { urlHash } : {}),
-        ...(fileUrl ? { fileUrl } : {}),
-        ...(fileName ? { fileName } : {}),
-        ...(fileSize ? { fileSize } : {}),
-        ...(fileType ? { fileType } : {}),
-        ...(fileHash ? { fileHash } : {}),
+        fileUrl: uploadResult.fileUrl,
+        fileName: uploadResult.fileName,
+        fileSize: uploadResult.fileSize,
+        fileType: file.mimetype,
+        fileHash,
         userId,
-        title: metadata.title || body.title,
-        description: metadata.description || body.description,
-        favicon: metadata.favicon || body.favicon,
-        coverImage: metadata.coverImage || body.coverImage,
-        siteName: metadata.siteName || body.siteName,
-        content: metadata.content || body.content,
-        contentType: metadata.contentType,
-        wordCount: metadata.wordCount,
-        readingTime: metadata.readingTime,
-        totalPages: metadata.totalPages,
+        title: body.title || file.originalname.replace(/\.[^/.]+$/, ''),
+        description: body.description,
+        contentType: body.contentType || detectFileType(file.originalname, file.mimetype),
         attributes: Object.keys(attributes).length > 0 ? attributes : undefined,
+        extractionStatus: 'PENDING',
+        extractionJobs: {
+          create: {
+            maxAttempts: env.ingestionMaxAttempts,
+            overrides,
+            isInitial: true,
+          },
+        },
       },
     });
 
@@ -262,63 +278,20 @@ router.post('/', upload.single('file'), async (req, res, next) => {
   }
 });
 
-// GET /articles - Listar artigos do usuário
+// GET /articles - Listar artigos do usuário (filtros, ordenação, cursor e fields= em services/articleFilters e articleListing)
 router.get('/', authToken, async (req: AuthenticatedRequest, res, next) => {
   try {
     const userId = req.userId!;
-    const status = req.query.status as string | undefined;
-    const isFavorited = req.query.isFavorited as string | undefined;
-    const minRating = req.query.minRating as string | undefined;
-    const limit = parseInt(req.query.limit as string) || 50;
-    const page = parseInt(req.query.page as string) || 1;
-    const skip = (page - 1) * limit;
-
-    const where: any = { userId };
-    if (status) {
-      where.status = status;
-    }
-    if (isFavorited !== undefined) {
-      where.isFavorited = isFavorited === 'true';
-    }
-    if (minRating !== undefined) {
-      const ratingValue = parseInt(minRating);
-      if (!isNaN(ratingValue) && ratingValue >= 0 && ratingValue <= 5) {
-        where.rating = { gte: ratingValue };
-      }
-    }
+    const filter = parseArticleFilter(req.query);
+    const listQuery = parseArticleListQuery(req.query);
 
-    const [articles, total] = await Promise.all([
-      prisma.article.findMany({
-        where,
-        orderBy: { createdAt: 'desc' },
-        take: limit,
-        skip,
-        include: {
-          articleTags: {
-            include: {
-              tag: true,
-            },
-          },
-          articleCollections: {
-            include: {
-              collection: true,
-            },
-          },
-        },
-      }),
-      prisma.article.count({ where }),
-    ]);
+    const { items, pagination } = await listArticles(await resolveArticleWhere(userId, filter), filter, listQuery);
 
-    res.json({
-      data: articles,
-      pagination: {
-        page,
-        limit,
-        total,
-        totalPages: Math.ceil(total / limit),
-      },
-    });
+    res.json({ data: items, pagination });
   } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Filtros inválidos', details: error.errors });
+    }
     next(error);
   }
 });
@@ -331,11 +304,11 @@ router.get('/counts', authToken, async (req: AuthenticatedRequest, res, next) =>
     const [countsByStatus, total] = await Promise.all([
       prisma.article.groupBy({
         by: ['status'],
-        where: { userId },
+        where: { userId, deletedAt: null },
         _count: true,
       }),
       prisma.article.count({
-        where: { userId },
+        where: { userId, deletedAt: null },
       }),
     ]);
 
@@ -360,63 +333,228 @@ router.get('/counts', authToken, async (req: AuthenticatedRequest, res, next) =>
   }
 });
 
-// GET /articles/export - Exportar artigos como JSON ou CSV
+// GET /articles/export - Exportar artigos como JSON, NDJSON, CSV, HTML (favoritos do navegador) ou Markdown (zip para Obsidian/Logseq)
+// JSON, NDJSON e CSV são enviados em streaming e aceitam os mesmos filtros da listagem (status, tagIds, collectionId, createdFrom/createdTo...)
+// CSV aceita ?columns= para escolher as colunas; Markdown aceita ?since= (ISO 8601) para exportar apenas o que mudou desde então
 router.get('/export', authToken, async (req: AuthenticatedRequest, res, next) => {
   try {
     const userId = req.userId!;
-    const format = req.query.format as string || 'json';
+    const { format, columns } = exportQuerySchema.parse(req.query);
 
-    const articles = await prisma.article.findMany({
-      where: { userId },
-      include: {
-        articleTags: {
-          include: {
-            tag: true,
-          },
+    if (format === 'markdown') {
+      const since = req.query.since ? new Date(req.query.since as string) : undefined;
+      if (since && isNaN(since.getTime())) {
+        return res.status(400).json({ error: 'Data inválida em since' });
+      }
+
+      const changedSince = since ? { updatedAt: { gte: since } } : {};
+      const articles = await prisma.article.findMany({
+        where: {
+          userId,
+          deletedAt: null,
+          // Highlights and notes do not touch the article's updatedAt
+          ...(since
+            ? {
+                OR: [
+                  changedSince,
+                  { highlights: { some: { deletedAt: null, ...changedSince } } },
+                  { notes: { some: { deletedAt: null, ...changedSince } } },
+                ],
+              }
+            : {}),
         },
-        articleCollections: {
-          include: {
-            collection: true,
+        include: {
+          articleTags: {
+            include: {
+              tag: true,
+            },
+          },
+          articleCollections: {
+            where: { collection: { deletedAt: null } },
+            include: {
+              collection: true,
+            },
+          },
+          highlights: {
+            where: { deletedAt: null },
+            include: {
+              notes: {
+                where: { deletedAt: null },
+              },
+            },
+            orderBy: { createdAt: 'asc' },
+          },
+          notes: {
+            where: { deletedAt: null },
+            orderBy: { createdAt: 'asc' },
           },
         },
-        highlights: {
-          include: {
-            notes: true,
+        orderBy: { createdAt: 'asc' },
+      });
+
+      const vault = await renderMarkdownVault(articles);
+
+      res.setHeader('Content-Type', 'application/zip');
+      res.setHeader('Content-Disposition', 'attachment; filename=articles-markdown.zip');
+      return res.send(vault);
+    }
+
+    const filter = parseArticleFilter(req.query);
+    const where = await resolveArticleWhere(userId, filter);
+
+    if (format === 'html') {
+      const articles = await prisma.article.findMany({
+        where,
+        include: {
+          articleTags: {
+            include: {
+              tag: true,
+            },
+          },
+          articleCollections: {
+            where: { collection: { deletedAt: null } },
+            include: {
+              collection: true,
+            },
           },
         },
-        notes: true,
-      },
-      orderBy: { createdAt: 'desc' },
-    });
-
-    if (format === 'csv') {
-      // CSV export
-      const headers = ['Title', 'URL/File', 'Status', 'Reading Progress', 'Created At', 'Tags', 'Collections'];
-      const rows = articles.map(article => [
-        article.title || '',
-        (article.url || (article as any).fileName || ''),
-        article.status,
-        (article.readingProgress * 100).toFixed(0) + '%',
-        article.createdAt.toISOString(),
-        article.articleTags.map(at => at.tag.name).join('; '),
-        article.articleCollections.map(ac => ac.collection.name).join('; '),
-      ]);
-
-      const csv = [
-        headers.join(','),
-        ...rows.map(row => row.map(cell => `"${String(cell).replace(/"/g, '""')}"`).join(',')),
-      ].join('\n');
-
-      res.setHeader('Content-Type', 'text/csv');
-      res.setHeader('Content-Disposition', 'attachment; filename=articles.csv');
-      res.send(csv);
+        orderBy: buildArticleOrderBy(filter),
+      });
+
+      // Netscape bookmark file, importable by any browser
+      res.setHeader('Content-Type', 'text/html; charset=utf-8');
+      res.setHeader('Content-Disposition', 'attachment; filename=bookmarks.html');
+      return res.send(renderNetscapeBookmarks(articles));
+    }
+
+    const stream = streamArticleExport(where, filter, format, columns);
+    const { contentType, fileName } = STREAM_EXPORT_FILES[format];
+
+    res.setHeader('Content-Type', contentType);
+    res.setHeader('Content-Disposition', `attachment; filename=${fileName}`);
+
+    try {
+      await pipeline(stream, res);
+    } catch (error) {
+      // Headers are gone by now; cutting the connection tells the client the file is incomplete
+      console.error('Error streaming export:', error);
+      res.destroy();
+    }
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Filtros inválidos', details: error.errors });
+    }
+    next(error);
+  }
+});
+
+// POST /articles/export/epub - Gerar um EPUB com os artigos informados (na ordem dos IDs)
+router.post('/export/epub', authToken, async (req: AuthenticatedRequest, res, next) => {
+  try {
+    const userId = req.userId!;
+    const body = epubExportSchema.parse(req.body);
+
+    const found = await prisma.article.findMany({
+      where: {
+        id: { in: body.ids },
+        userId,
+        deletedAt: null,
+        content: { not: null },
+      },
+    });
+
+    if (found.length === 0) {
+      return res.status(404).json({ error: 'Nenhum artigo com conteúdo encontrado' });
+    }
+
+    const byId = new Map(found.map(article => [article.id, article]));
+    const articles = [...new Set(body.ids)].filter(id => byId.has(id)).map(id => byId.get(id)!);
+    const title = body.title ?? (articles.length === 1 ? plainTitle(articles[0].title) || 'Artigo' : 'Artigos salvos');
+
+    const epub = await renderEpub(articles, { title });
+
+    res.setHeader('Content-Type', 'application/epub+zip');
+    res.setHeader('Content-Disposition', `attachment; filename=${epubFileName(title)}`);
+    res.send(epub);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Dados inválidos', details: error.errors });
+    }
+    next(error);
+  }
+});
+
+// POST /articles/bulk - Aplicar uma ação a vários artigos (lista de IDs ou filtro do GET /articles)
+router.post('/bulk', authToken, async (req: AuthenticatedRequest, res, next) => {
+  try {
+    const userId = req.userId!;
+    const body = bulkArticleSchema.parse(req.body);
+    const action = body.action;
+
+    if (action.type === 'addTags' || action.type === 'removeTags') {
+      const tagIds = [...new Set(action.tagIds)];
+      const tagCount = await prisma.tag.count({
+        where: {
+          id: { in: tagIds },
+          userId,
+        },
+      });
+
+      if (tagCount !== tagIds.length) {
+        return res.status(404).json({ error: 'Tag não encontrada' });
+      }
+    }
+
+    if (action.type === 'addToCollection' || action.type === 'removeFromCollection') {
+      const collection = await prisma.collection.findFirst({
+        where: {
+          id: action.collectionId,
+          userId,
+          deletedAt: null,
+        },
+      });
+
+      if (!collection) {
+        return res.status(404).json({ error: 'Coleção não encontrada' });
+      }
+
+      if (isSmartCollection(collection)) {
+        return res.status(400).json({ error: SMART_COLLECTION_ERROR });
+      }
+    }
+
+    let articleIds: string[];
+    if (body.ids) {
+      articleIds = [...new Set(body.ids)];
     } else {
-      // JSON export
-      res.setHeader('Content-Type', 'application/json');
-      res.setHeader('Content-Disposition', 'attachment; filename=articles.json');
-      res.json({ data: articles });
+      const matches = await prisma.article.findMany({
+        where: await resolveArticleWhere(userId, parseArticleFilter(body.filter!)),
+        select: { id: true },
+        orderBy: { createdAt: 'desc' },
+        take: MAX_BULK_ITEMS + 1,
+      });
+
+      if (matches.length > MAX_BULK_ITEMS) {
+        return res.status(400).json({ error: `O filtro seleciona mais de ${MAX_BULK_ITEMS} artigos` });
+      }
+      articleIds = matches.map(article => article.id);
     }
+
+    const results = await runBulkAction(userId, articleIds, action);
+
+    res.json({
+      data: results,
+      summary: {
+        total: results.length,
+        updated: results.filter(item => item.result === 'updated' || item.result === 'deleted').length,
+        unchanged: results.filter(item => item.result === 'unchanged').length,
+        notFound: results.filter(item => item.result === 'not_found').length,
+      },
+    });
   } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Dados inválidos', details: error.errors });
+    }
     next(error);
   }
 });
@@ -431,6 +569,7 @@ router.get('/:id', authToken, async (req: AuthenticatedRequest, res, next) => {
       where: {
         id: articleId,
         userId,
+        deletedAt: null,
       },
       include: {
         articleTags: {
@@ -439,12 +578,17 @@ router.get('/:id', authToken, async (req: AuthenticatedRequest, res, next) => {
           },
         },
         articleCollections: {
+          where: { collection: { deletedAt: null } },
           include: {
             collection: true,
           },
         },
-        highlights: true,
-        notes: true,
+        highlights: {
+          where: { deletedAt: null },
+        },
+        notes: {
+          where: { deletedAt: null },
+        },
       },
     });
 
@@ -469,6 +613,7 @@ router.patch('/:id', authToken, async (req: AuthenticatedRequest, res, next) =>
       where: {
         id: articleId,
         userId,
+        deletedAt: null,
       },
     });
 
@@ -551,7 +696,7 @@ router.patch('/:id', authToken, async (req: AuthenticatedRequest, res, next) =>
   }
 });
 
-// DELETE /articles/:id - Deletar artigo
+// DELETE /articles/:id - Mover artigo para a lixeira (arquivo é removido apenas na limpeza da lixeira)
 router.delete('/:id', authToken, async (req: AuthenticatedRequest, res, next) => {
   try {
     const userId = req.userId!;
@@ -561,6 +706,7 @@ router.delete('/:id', authToken, async (req: AuthenticatedRequest, res, next) =>
       where: {
         id: articleId,
         userId,
+        deletedAt: null,
       },
     });
 
@@ -568,14 +714,7 @@ router.delete('/:id', authToken, async (req: AuthenticatedRequest, res, next) =>
       return res.status(404).json({ error: 'Artigo não encontrado' });
     }
 
-    // Delete file from R2 if exists
-    if ((article as any).fileUrl) {
-      await deleteFile((article as any).fileUrl);
-    }
-
-    await prisma.article.delete({
-      where: { id: articleId },
-    });
+    await trashArticles([articleId]);
 
     res.status(204).send();
   } catch (error) {
@@ -594,6 +733,7 @@ router.post('/:id/read', authToken, async (req: AuthenticatedRequest, res, next)
       where: {
         id: articleId,
         userId,
+        deletedAt: null,
       },
     });
 
@@ -644,13 +784,623 @@ router.post('/:id/read', authToken, async (req: AuthenticatedRequest, res, next)
   }
 });
 
-function extractTitleFromUrl(url: string): string {
+// GET /articles/:id/summary - Resumo extrativo e frases-chave do conteúdo
+router.get('/:id/summary', authToken, async (req: AuthenticatedRequest, res, next) => {
+  try {
+    const userId = req.userId!;
+    const articleId = req.params.id;
+
+    const article = await prisma.article.findFirst({
+      where: {
+        id: articleId,
+        userId,
+        deletedAt: null,
+      },
+      select: { id: true, content: true, description: true, summary: true, keySentences: true },
+    });
+
+    if (!article) {
+      return res.status(404).json({ error: 'Artigo não encontrado' });
+    }
+
+    let { summary, keySentences } = article;
+
+    // Articles saved before summaries existed get one on first read
+    if (!summary && article.content) {
+      ({ summary, keySentences } = summarizeContent(article.content));
+      if (summary) {
+        await prisma.article.update({
+          where: { id: article.id },
+          data: { summary, keySentences },
+        });
+      }
+    }
+
+    res.json({ data: { summary, keySentences, description: article.description } });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// GET /articles/:id/tag-suggestions - Sugerir tags a partir do conteúdo (tags existentes primeiro)
+router.get('/:id/tag-suggestions', authToken, async (req: AuthenticatedRequest, res, next) => {
   try {
-    const urlObj = new URL(url);
-    return urlObj.hostname.replace('www.', '');
-  } catch {
-    return 'Untitled';
+    const userId = req.userId!;
+    const articleId = req.params.id;
+    const { limit } = tagSuggestionsQuerySchema.parse(req.query);
+
+    const article = await prisma.article.findFirst({
+      where: {
+        id: articleId,
+        userId,
+        deletedAt: null,
+      },
+      select: { id: true, userId: true, title: true, description: true, content: true },
+    });
+
+    if (!article) {
+      return res.status(404).json({ error: 'Artigo não encontrado' });
+    }
+
+    const suggestions = await suggestTags(article, limit);
+
+    res.json({ data: suggestions });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Parâmetros inválidos', details: error.errors });
+    }
+    next(error);
   }
-}
+});
+
+// GET /articles/:id/speech - SSML e mapa de frases/parágrafos (por ID de token) para leitura em voz alta
+router.get('/:id/speech', authToken, async (req: AuthenticatedRequest, res, next) => {
+  try {
+    const userId = req.userId!;
+    const articleId = req.params.id;
+
+    const article = await prisma.article.findFirst({
+      where: {
+        id: articleId,
+        userId,
+        deletedAt: null,
+      },
+      select: { content: true, title: true, language: true, listeningPosition: true, listenedAt: true },
+    });
+
+    if (!article) {
+      return res.status(404).json({ error: 'Artigo não encontrado' });
+    }
+
+    const speech = article.content ? buildSpeechMap(article.content, article.title, article.language) : null;
+    if (!speech) {
+      return res.status(400).json({ error: 'Conteúdo do artigo não está preparado para leitura em voz alta' });
+    }
+
+    res.json({
+      data: {
+        ...speech,
+        language: article.language,
+        listeningPosition: article.listeningPosition,
+        listenedAt: article.listenedAt,
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// PUT /articles/:id/speech/position - Salvar posição da leitura em voz alta (ID do token)
+router.put('/:id/speech/position', authToken, async (req: AuthenticatedRequest, res, next) => {
+  try {
+    const userId = req.userId!;
+    const articleId = req.params.id;
+    const body = listeningPositionSchema.parse(req.body);
+
+    const article = await prisma.article.findFirst({
+      where: {
+        id: articleId,
+        userId,
+        deletedAt: null,
+      },
+      select: { id: true, content: true, title: true },
+    });
+
+    if (!article) {
+      return res.status(404).json({ error: 'Artigo não encontrado' });
+    }
+
+    if (!hasToken(article.content || '', article.title, body.tokenId)) {
+      return res.status(400).json({ error: 'Token não encontrado no artigo' });
+    }
+
+    const updated = await prisma.article.update({
+      where: { id: article.id },
+      data: {
+        listeningPosition: body.tokenId,
+        listenedAt: new Date(),
+      },
+      select: { id: true, listeningPosition: true, listenedAt: true },
+    });
+
+    res.json({ data: updated });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Dados inválidos', details: error.errors });
+    }
+    next(error);
+  }
+});
+
+// GET /articles/:id/extraction - Consultar status da extração em segundo plano
+router.get('/:id/extraction', authToken, async (req: AuthenticatedRequest, res, next) => {
+  try {
+    const userId = req.userId!;
+    const articleId = req.params.id;
+
+    const article = await prisma.article.findFirst({
+      where: {
+        id: articleId,
+        userId,
+        deletedAt: null,
+      },
+      select: {
+        extractionStatus: true,
+        extractionError: true,
+        extractionJobs: {
+          orderBy: { createdAt: 'desc' },
+          take: 1,
+        },
+      },
+    });
+
+    if (!article) {
+      return res.status(404).json({ error: 'Artigo não encontrado' });
+    }
+
+    res.json({
+      data: {
+        status: article.extractionStatus,
+        error: article.extractionError,
+        job: article.extractionJobs[0] ?? null,
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// POST /articles/:id/extraction - Reenfileirar extração do conteúdo
+router.post('/:id/extraction', authToken, async (req: AuthenticatedRequest, res, next) => {
+  try {
+    const userId = req.userId!;
+    const articleId = req.params.id;
+
+    const article = await prisma.article.findFirst({
+      where: {
+        id: articleId,
+        userId,
+        deletedAt: null,
+      },
+      include: {
+        extractionJobs: {
+          orderBy: { createdAt: 'desc' },
+          take: 1,
+        },
+      },
+    });
+
+    if (!article) {
+      return res.status(404).json({ error: 'Artigo não encontrado' });
+    }
+
+    if (!article.url && !article.fileUrl) {
+      return res.status(400).json({ error: 'Artigo não possui URL nem arquivo para extrair' });
+    }
+
+    if (article.extractionStatus === 'PENDING' || article.extractionStatus === 'RUNNING') {
+      return res.status(409).json({ error: 'Extração já está em andamento' });
+    }
+
+    // Keep the metadata the client originally provided
+    const lastJob = article.extractionJobs[0];
+    const job = await enqueueExtraction(article.id, lastJob?.overrides as ExtractionOverrides | null);
+
+    res.status(202).json({ data: job });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// POST /articles/:id/refresh - Extrair novamente o conteúdo da URL (versão anterior é preservada)
+router.post('/:id/refresh', authToken, async (req: AuthenticatedRequest, res, next) => {
+  try {
+    const userId = req.userId!;
+    const articleId = req.params.id;
+
+    const article = await prisma.article.findFirst({
+      where: {
+        id: articleId,
+        userId,
+        deletedAt: null,
+      },
+    });
+
+    if (!article) {
+      return res.status(404).json({ error: 'Artigo não encontrado' });
+    }
+
+    if (!article.url) {
+      return res.status(400).json({ error: 'Apenas artigos com URL podem ser atualizados' });
+    }
+
+    let metadata: ExtractedMetadata;
+    try {
+      metadata = await extractContent(article.url, false, true);
+    } catch (error) {
+      console.error('Error refreshing article content:', error);
+      return res.status(502).json({ error: 'Não foi possível extrair o conteúdo da URL' });
+    }
+    metadata = await archiveExtractedImages(article, metadata);
+
+    const updated = await replaceArticleContent(article, {
+      ...buildArticleData(article, metadata),
+      extractionStatus: 'DONE',
+      extractionError: null,
+    });
+
+    res.json({ data: updated });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// POST /articles/:id/images/archive - Baixar as imagens do artigo para o nosso storage e reescrever o conteúdo
+router.post('/:id/images/archive', authToken, async (req: AuthenticatedRequest, res, next) => {
+  try {
+    const userId = req.userId!;
+    const articleId = req.params.id;
+
+    if (!env.imageArchiveEnabled) {
+      return res.status(400).json({ error: 'Arquivamento de imagens desativado' });
+    }
+
+    const article = await prisma.article.findFirst({
+      where: {
+        id: articleId,
+        userId,
+        deletedAt: null,
+      },
+    });
+
+    if (!article) {
+      return res.status(404).json({ error: 'Artigo não encontrado' });
+    }
+
+    const { fields, stats } = await archiveArticleImages(article, {
+      content: article.content,
+      coverImage: article.coverImage,
+      favicon: article.favicon,
+    });
+
+    // Same text with other image URLs, so no new content version
+    const updated = await prisma.article.update({
+      where: { id: articleId },
+      data: fields,
+    });
+
+    res.json({ data: updated, images: stats });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// GET /articles/:id/snapshot - Baixar o snapshot HTML (autocontido) da página original
+router.get('/:id/snapshot', authToken, async (req: AuthenticatedRequest, res, next) => {
+  try {
+    const userId = req.userId!;
+    const articleId = req.params.id;
+
+    const article = await prisma.article.findFirst({
+      where: {
+        id: articleId,
+        userId,
+        deletedAt: null,
+      },
+      select: { id: true, snapshotUrl: true },
+    });
+
+    if (!article) {
+      return res.status(404).json({ error: 'Artigo não encontrado' });
+    }
+
+    if (!article.snapshotUrl) {
+      return res.status(404).json({ error: 'Snapshot não encontrado' });
+    }
+
+    const snapshot = await downloadFile(article.snapshotUrl);
+
+    res.setHeader('Content-Type', 'text/html; charset=utf-8');
+    res.setHeader('Content-Disposition', `attachment; filename=snapshot-${article.id}.html`);
+    res.send(snapshot);
+  } catch (error) {
+    next(error);
+  }
+});
+
+// POST /articles/:id/snapshot - Capturar (ou recapturar) o snapshot HTML da página original
+router.post('/:id/snapshot', authToken, async (req: AuthenticatedRequest, res, next) => {
+  try {
+    const userId = req.userId!;
+    const articleId = req.params.id;
+
+    const article = await prisma.article.findFirst({
+      where: {
+        id: articleId,
+        userId,
+        deletedAt: null,
+      },
+    });
+
+    if (!article) {
+      return res.status(404).json({ error: 'Artigo não encontrado' });
+    }
+
+    if (!article.url) {
+      return res.status(400).json({ error: 'Apenas artigos com URL têm snapshot' });
+    }
+
+    let updated;
+    try {
+      updated = await captureSnapshot(article);
+    } catch (error) {
+      console.error('Error capturing snapshot:', error);
+      return res.status(502).json({ error: 'Não foi possível capturar a página' });
+    }
+
+    res.status(201).json({ data: updated });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// GET /articles/:id/versions - Listar versões anteriores do conteúdo
+router.get('/:id/versions', authToken, async (req: AuthenticatedRequest, res, next) => {
+  try {
+    const userId = req.userId!;
+    const articleId = req.params.id;
+
+    const article = await prisma.article.findFirst({
+      where: {
+        id: articleId,
+        userId,
+        deletedAt: null,
+      },
+      select: { id: true },
+    });
+
+    if (!article) {
+      return res.status(404).json({ error: 'Artigo não encontrado' });
+    }
+
+    const versions = await prisma.articleContentVersion.findMany({
+      where: { articleId },
+      select: {
+        id: true,
+        version: true,
+        title: true,
+        wordCount: true,
+        createdAt: true,
+      },
+      orderBy: { version: 'desc' },
+    });
+
+    res.json({ data: versions });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// GET /articles/:id/versions/:versionId - Buscar versão específica
+router.get('/:id/versions/:versionId', authToken, async (req: AuthenticatedRequest, res, next) => {
+  try {
+    const userId = req.userId!;
+    const articleId = req.params.id;
+
+    const version = await prisma.articleContentVersion.findFirst({
+      where: {
+        id: req.params.versionId,
+        articleId,
+        article: { userId },
+      },
+    });
+
+    if (!version) {
+      return res.status(404).json({ error: 'Versão não encontrada' });
+    }
+
+    res.json({ data: version });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// GET /articles/:id/versions/:versionId/diff - Comparar versão com a atual ou com outra versão (?compareTo=)
+router.get('/:id/versions/:versionId/diff', authToken, async (req: AuthenticatedRequest, res, next) => {
+  try {
+    const userId = req.userId!;
+    const articleId = req.params.id;
+    const compareTo = (req.query.compareTo as string | undefined) || 'current';
+
+    const article = await prisma.article.findFirst({
+      where: {
+        id: articleId,
+        userId,
+        deletedAt: null,
+      },
+      select: { id: true, title: true, content: true, wordCount: true },
+    });
+
+    if (!article) {
+      return res.status(404).json({ error: 'Artigo não encontrado' });
+    }
+
+    const version = await prisma.articleContentVersion.findFirst({
+      where: { id: req.params.versionId, articleId },
+    });
+
+    if (!version) {
+      return res.status(404).json({ error: 'Versão não encontrada' });
+    }
+
+    let target: { version: number | null; title: string | null; content: string | null; wordCount: number | null };
+    if (compareTo === 'current') {
+      target = { ...article, version: null };
+    } else {
+      const other = await prisma.articleContentVersion.findFirst({
+        where: { id: compareTo, articleId },
+      });
+
+      if (!other) {
+        return res.status(404).json({ error: 'Versão de comparação não encontrada' });
+      }
+      target = other;
+    }
+
+    res.json({
+      data: {
+        from: { version: version.version, title: version.title, wordCount: version.wordCount },
+        to: { version: target.version, title: target.title, wordCount: target.wordCount },
+        chunks: diffContent(version.content, target.content),
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// POST /articles/:id/versions/:versionId/restore - Restaurar versão anterior (a atual vira uma nova versão)
+router.post('/:id/versions/:versionId/restore', authToken, async (req: AuthenticatedRequest, res, next) => {
+  try {
+    const userId = req.userId!;
+    const articleId = req.params.id;
+
+    const article = await prisma.article.findFirst({
+      where: {
+        id: articleId,
+        userId,
+        deletedAt: null,
+      },
+    });
+
+    if (!article) {
+      return res.status(404).json({ error: 'Artigo não encontrado' });
+    }
+
+    const version = await prisma.articleContentVersion.findFirst({
+      where: { id: req.params.versionId, articleId },
+    });
+
+    if (!version) {
+      return res.status(404).json({ error: 'Versão não encontrada' });
+    }
+
+    const updated = await replaceArticleContent(article, {
+      title: version.title,
+      content: version.content,
+      wordCount: version.wordCount,
+      readingTime: version.wordCount ? Math.ceil((version.wordCount / 200) * 60) : null,
+    });
+
+    res.json({ data: updated });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// GET /articles/:id/duplicates - Buscar artigos com conteúdo quase idêntico
+router.get('/:id/duplicates', authToken, async (req: AuthenticatedRequest, res, next) => {
+  try {
+    const userId = req.userId!;
+    const articleId = req.params.id;
+    const maxDistance = req.query.maxDistance !== undefined ? Number(req.query.maxDistance) : DEFAULT_MAX_DISTANCE;
+
+    if (!Number.isInteger(maxDistance) || maxDistance < 0 || maxDistance > 16) {
+      return res.status(400).json({ error: 'maxDistance deve ser um inteiro entre 0 e 16' });
+    }
+
+    const article = await prisma.article.findFirst({
+      where: {
+        id: articleId,
+        userId,
+        deletedAt: null,
+      },
+    });
+
+    if (!article) {
+      return res.status(404).json({ error: 'Artigo não encontrado' });
+    }
+
+    const duplicates = await findDuplicates(article, maxDistance);
+
+    res.json({ data: duplicates });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// POST /articles/:id/merge - Mesclar outro artigo (sourceId) neste; o outro vai para a lixeira
+router.post('/:id/merge', authToken, async (req: AuthenticatedRequest, res, next) => {
+  try {
+    const userId = req.userId!;
+    const articleId = req.params.id;
+    const body = mergeArticleSchema.parse(req.body);
+
+    if (body.sourceId === articleId) {
+      return res.status(400).json({ error: 'Não é possível mesclar um artigo com ele mesmo' });
+    }
+
+    const [target, source] = await Promise.all([
+      prisma.article.findFirst({ where: { id: articleId, userId, deletedAt: null } }),
+      prisma.article.findFirst({ where: { id: body.sourceId, userId, deletedAt: null } }),
+    ]);
+
+    if (!target || !source) {
+      return res.status(404).json({ error: 'Artigo não encontrado' });
+    }
+
+    await mergeArticles(target, source);
+
+    const merged = await prisma.article.findUnique({
+      where: { id: articleId },
+      include: {
+        articleTags: {
+          include: {
+            tag: true,
+          },
+        },
+        articleCollections: {
+          where: { collection: { deletedAt: null } },
+          include: {
+            collection: true,
+          },
+        },
+        highlights: {
+          where: { deletedAt: null },
+        },
+        notes: {
+          where: { deletedAt: null },
+        },
+      },
+    });
+
+    res.json({ data: merged });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Dados inválidos', details: error.errors });
+    }
+    next(error);
+  }
+});
 
 export default router;
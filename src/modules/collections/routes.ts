@@ -1,18 +1,34 @@
 import { Router } from 'express';
 import { z } from 'zod';
+import { Prisma } from '@prisma/client';
 import { prisma } from '../../config/prisma';
 import { authToken, AuthenticatedRequest } from '../../middleware/authToken';
+import { buildArticleWhere, parseArticleFilter } from '../../services/articleFilters';
+import { listArticles, parseArticleListQuery } from '../../services/articleListing';
+import { trashCollection } from '../../services/trash';
+import {
+  buildSmartCollectionWhere,
+  isSmartCollection,
+  parseSmartQuery,
+  smartQuerySchema,
+  SMART_COLLECTION_ERROR,
+  toStoredQuery,
+} from '../../services/smartCollections';
+import { renderEpub, epubFileName, MAX_EPUB_ARTICLES } from '../../services/exporters/epub';
 
 const router = Router();
 
 const createCollectionSchema = z.object({
   name: z.string().min(1),
   description: z.string().optional(),
+  query: smartQuerySchema.optional(), // Makes it a smart collection
 });
 
 const updateCollectionSchema = z.object({
   name: z.string().min(1).optional(),
   description: z.string().optional(),
+  // null turns it back into a regular collection (articles added by hand are kept)
+  query: smartQuerySchema.nullable().optional(),
 });
 
 // GET /collections - Listar coleções do usuário
@@ -21,9 +37,10 @@ router.get('/', authToken, async (req: AuthenticatedRequest, res, next) => {
     const userId = req.userId!;
 
     const collections = await prisma.collection.findMany({
-      where: { userId },
+      where: { userId, deletedAt: null },
       include: {
         articleCollections: {
+          where: { article: { deletedAt: null } },
           include: {
             article: true,
           },
@@ -32,37 +49,79 @@ router.get('/', authToken, async (req: AuthenticatedRequest, res, next) => {
       orderBy: { createdAt: 'desc' },
     });
 
-    res.json({ data: collections });
+    // Smart collections have no articleCollections; their size is counted live
+    const data = await Promise.all(
+      collections.map(async collection => {
+        if (!isSmartCollection(collection)) {
+          return collection;
+        }
+        const articleCount = await prisma.article.count({
+          where: buildSmartCollectionWhere(userId, parseSmartQuery(collection.query)),
+        });
+        return { ...collection, articleCount };
+      })
+    );
+
+    res.json({ data });
   } catch (error) {
     next(error);
   }
 });
 
-// GET /collections/:id - Buscar coleção específica
+// GET /collections/:id - Buscar coleção específica (artigos paginados como em GET /articles)
 router.get('/:id', authToken, async (req: AuthenticatedRequest, res, next) => {
   try {
     const userId = req.userId!;
     const collectionId = req.params.id;
+    const filter = parseArticleFilter(req.query);
+    const listQuery = parseArticleListQuery(req.query);
 
     const collection = await prisma.collection.findFirst({
       where: {
         id: collectionId,
         userId,
+        deletedAt: null,
       },
-      include: {
-        articleCollections: {
-          include: {
-            article: {
-              include: {
-                articleTags: {
-                  include: {
-                    tag: true,
-                  },
-                },
-              },
-            },
-          },
-        },
+    });
+
+    if (!collection) {
+      return res.status(404).json({ error: 'Coleção não encontrada' });
+    }
+
+    let where = buildArticleWhere(userId, { ...filter, collectionId });
+    let sort: Pick<typeof filter, 'sort' | 'order'> = filter;
+
+    // Smart collections are evaluated now; request filters narrow the saved query
+    if (isSmartCollection(collection)) {
+      const query = parseSmartQuery(collection.query);
+      where = { AND: [buildSmartCollectionWhere(userId, query), buildArticleWhere(userId, filter)] };
+      if (req.query.sort === undefined) {
+        sort = { sort: query.sort, order: req.query.order === undefined ? query.order : filter.order };
+      }
+    }
+
+    const { items, pagination } = await listArticles(where, sort, listQuery);
+
+    res.json({ data: { ...collection, articles: items }, pagination });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Filtros inválidos', details: error.errors });
+    }
+    next(error);
+  }
+});
+
+// GET /collections/:id/export.epub - Exportar a coleção como EPUB (um capítulo por artigo)
+router.get('/:id/export.epub', authToken, async (req: AuthenticatedRequest, res, next) => {
+  try {
+    const userId = req.userId!;
+    const collectionId = req.params.id;
+
+    const collection = await prisma.collection.findFirst({
+      where: {
+        id: collectionId,
+        userId,
+        deletedAt: null,
       },
     });
 
@@ -70,7 +129,31 @@ router.get('/:id', authToken, async (req: AuthenticatedRequest, res, next) => {
       return res.status(404).json({ error: 'Coleção não encontrada' });
     }
 
-    res.json({ data: collection });
+    const articles = await prisma.article.findMany({
+      where: {
+        AND: [
+          isSmartCollection(collection)
+            ? buildSmartCollectionWhere(userId, parseSmartQuery(collection.query))
+            : { userId, deletedAt: null, articleCollections: { some: { collectionId } } },
+          { content: { not: null } },
+        ],
+      },
+      orderBy: { createdAt: 'asc' },
+      take: MAX_EPUB_ARTICLES,
+    });
+
+    if (articles.length === 0) {
+      return res.status(404).json({ error: 'Nenhum artigo com conteúdo nesta coleção' });
+    }
+
+    const epub = await renderEpub(articles, {
+      title: collection.name,
+      description: collection.description,
+    });
+
+    res.setHeader('Content-Type', 'application/epub+zip');
+    res.setHeader('Content-Disposition', `attachment; filename=${epubFileName(collection.name)}`);
+    res.send(epub);
   } catch (error) {
     next(error);
   }
@@ -86,6 +169,7 @@ router.post('/', authToken, async (req: AuthenticatedRequest, res, next) => {
       data: {
         name: body.name,
         description: body.description,
+        query: body.query ? toStoredQuery(body.query) : undefined,
         userId,
       },
     });
@@ -110,6 +194,7 @@ router.patch('/:id', authToken, async (req: AuthenticatedRequest, res, next) =>
       where: {
         id: collectionId,
         userId,
+        deletedAt: null,
       },
     });
 
@@ -117,9 +202,13 @@ router.patch('/:id', authToken, async (req: AuthenticatedRequest, res, next) =>
       return res.status(404).json({ error: 'Coleção não encontrada' });
     }
 
+    const { query, ...data } = body;
     const updated = await prisma.collection.update({
       where: { id: collectionId },
-      data: body,
+      data: {
+        ...data,
+        ...(query !== undefined ? { query: query === null ? Prisma.DbNull : toStoredQuery(query) } : {}),
+      },
     });
 
     res.json({ data: updated });
@@ -131,7 +220,7 @@ router.patch('/:id', authToken, async (req: AuthenticatedRequest, res, next) =>
   }
 });
 
-// DELETE /collections/:id - Deletar coleção
+// DELETE /collections/:id - Mover coleção para a lixeira
 router.delete('/:id', authToken, async (req: AuthenticatedRequest, res, next) => {
   try {
     const userId = req.userId!;
@@ -141,6 +230,7 @@ router.delete('/:id', authToken, async (req: AuthenticatedRequest, res, next) =>
       where: {
         id: collectionId,
         userId,
+        deletedAt: null,
       },
     });
 
@@ -148,9 +238,7 @@ router.delete('/:id', authToken, async (req: AuthenticatedRequest, res, next) =>
       return res.status(404).json({ error: 'Coleção não encontrada' });
     }
 
-    await prisma.collection.delete({
-      where: { id: collectionId },
-    });
+    await trashCollection(collectionId);
 
     res.status(204).send();
   } catch (error) {
@@ -174,6 +262,7 @@ router.post('/:id/articles', authToken, async (req: AuthenticatedRequest, res, n
       where: {
         id: collectionId,
         userId,
+        deletedAt: null,
       },
     });
 
@@ -181,11 +270,16 @@ router.post('/:id/articles', authToken, async (req: AuthenticatedRequest, res, n
       return res.status(404).json({ error: 'Coleção não encontrada' });
     }
 
+    if (isSmartCollection(collection)) {
+      return res.status(400).json({ error: SMART_COLLECTION_ERROR });
+    }
+
     // Verify article belongs to user
     const article = await prisma.article.findFirst({
       where: {
         id: articleId,
         userId,
+        deletedAt: null,
       },
     });
 
@@ -230,6 +324,7 @@ router.delete('/:id/articles/:articleId', authToken, async (req: AuthenticatedRe
       where: {
         id: collectionId,
         userId,
+        deletedAt: null,
       },
     });
 
@@ -237,6 +332,10 @@ router.delete('/:id/articles/:articleId', authToken, async (req: AuthenticatedRe
       return res.status(404).json({ error: 'Coleção não encontrada' });
     }
 
+    if (isSmartCollection(collection)) {
+      return res.status(400).json({ error: SMART_COLLECTION_ERROR });
+    }
+
     const articleCollection = await prisma.articleCollection.findFirst({
       where: {
         articleId,
@@ -0,0 +1,310 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import multer from 'multer';
+import { prisma } from '../../config/prisma';
+import { authToken, AuthenticatedRequest } from '../../middleware/authToken';
+import { pollFeed, MIN_POLL_INTERVAL } from '../../services/feedPoller';
+import { parseOpml, renderOpml } from '../../services/opml';
+import { isSmartCollection, SMART_COLLECTION_ERROR } from '../../services/smartCollections';
+
+const router = Router();
+
+// OPML files are read in memory (5MB limit)
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: 5 * 1024 * 1024, // 5MB
+  },
+});
+
+const createFeedSchema = z.object({
+  url: z.string().url(),
+  title: z.string().min(1).optional(),
+  tags: z.array(z.string().min(1)).optional(),
+  collectionId: z.string().optional(),
+  pollInterval: z.number().int().min(MIN_POLL_INTERVAL).optional(),
+});
+
+const updateFeedSchema = z.object({
+  title: z.string().min(1).optional(),
+  tags: z.array(z.string().min(1)).optional(),
+  collectionId: z.string().nullable().optional(),
+  pollInterval: z.number().int().min(MIN_POLL_INTERVAL).optional(),
+  isActive: z.boolean().optional(),
+});
+
+// GET /feeds - Listar assinaturas do usuário
+router.get('/', authToken, async (req: AuthenticatedRequest, res, next) => {
+  try {
+    const userId = req.userId!;
+
+    const feeds = await prisma.feed.findMany({
+      where: { userId },
+      include: {
+        collection: true,
+      },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    res.json({ data: feeds });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// GET /feeds/opml - Exportar assinaturas como OPML
+router.get('/opml', authToken, async (req: AuthenticatedRequest, res, next) => {
+  try {
+    const userId = req.userId!;
+
+    const feeds = await prisma.feed.findMany({
+      where: { userId },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    res.setHeader('Content-Type', 'text/x-opml; charset=utf-8');
+    res.setHeader('Content-Disposition', 'attachment; filename=subscriptions.opml');
+    res.send(renderOpml(feeds));
+  } catch (error) {
+    next(error);
+  }
+});
+
+// POST /feeds/opml - Importar assinaturas de um arquivo OPML (campo "file")
+router.post('/opml', authToken, upload.single('file'), async (req: AuthenticatedRequest, res, next) => {
+  try {
+    const userId = req.userId!;
+
+    if (!req.file) {
+      return res.status(400).json({ error: 'Arquivo OPML é obrigatório' });
+    }
+
+    let subscriptions;
+    try {
+      subscriptions = parseOpml(req.file.buffer.toString('utf-8'));
+    } catch (error) {
+      console.error('Error parsing OPML:', error);
+      return res.status(400).json({ error: 'Arquivo OPML inválido' });
+    }
+
+    const valid = subscriptions.filter(subscription => z.string().url().safeParse(subscription.url).success);
+
+    // Feeds are polled by the background poller; existing subscriptions are kept
+    const result = await prisma.feed.createMany({
+      data: valid.map(subscription => ({
+        url: subscription.url,
+        title: subscription.title,
+        siteUrl: subscription.siteUrl,
+        tags: subscription.tags,
+        userId,
+      })),
+      skipDuplicates: true,
+    });
+
+    res.status(201).json({
+      data: {
+        created: result.count,
+        skipped: valid.length - result.count,
+        invalid: subscriptions.length - valid.length,
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// GET /feeds/:id - Buscar assinatura específica
+router.get('/:id', authToken, async (req: AuthenticatedRequest, res, next) => {
+  try {
+    const userId = req.userId!;
+    const feedId = req.params.id;
+
+    const feed = await prisma.feed.findFirst({
+      where: {
+        id: feedId,
+        userId,
+      },
+      include: {
+        collection: true,
+        entries: {
+          orderBy: { createdAt: 'desc' },
+          take: 20,
+        },
+      },
+    });
+
+    if (!feed) {
+      return res.status(404).json({ error: 'Feed não encontrado' });
+    }
+
+    res.json({ data: feed });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// POST /feeds - Assinar feed (RSS, Atom ou JSON Feed)
+router.post('/', authToken, async (req: AuthenticatedRequest, res, next) => {
+  try {
+    const userId = req.userId!;
+    const body = createFeedSchema.parse(req.body);
+
+    const existing = await prisma.feed.findFirst({
+      where: {
+        url: body.url,
+        userId,
+      },
+    });
+
+    if (existing) {
+      return res.status(409).json({ error: 'Feed já assinado', data: existing });
+    }
+
+    if (body.collectionId) {
+      const collection = await prisma.collection.findFirst({
+        where: {
+          id: body.collectionId,
+          userId,
+          deletedAt: null,
+        },
+      });
+
+      if (!collection) {
+        return res.status(404).json({ error: 'Coleção não encontrada' });
+      }
+
+      if (isSmartCollection(collection)) {
+        return res.status(400).json({ error: SMART_COLLECTION_ERROR });
+      }
+    }
+
+    const feed = await prisma.feed.create({
+      data: {
+        url: body.url,
+        title: body.title,
+        tags: body.tags,
+        collectionId: body.collectionId,
+        pollInterval: body.pollInterval,
+        userId,
+      },
+    });
+
+    // First fetch right away: fills in the title and records current entries
+    await pollFeed(feed);
+
+    const polled = await prisma.feed.findUnique({
+      where: { id: feed.id },
+    });
+
+    res.status(201).json({ data: polled });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Dados inválidos', details: error.errors });
+    }
+    next(error);
+  }
+});
+
+// PATCH /feeds/:id - Atualizar assinatura e regras
+router.patch('/:id', authToken, async (req: AuthenticatedRequest, res, next) => {
+  try {
+    const userId = req.userId!;
+    const feedId = req.params.id;
+    const body = updateFeedSchema.parse(req.body);
+
+    const feed = await prisma.feed.findFirst({
+      where: {
+        id: feedId,
+        userId,
+      },
+    });
+
+    if (!feed) {
+      return res.status(404).json({ error: 'Feed não encontrado' });
+    }
+
+    if (body.collectionId) {
+      const collection = await prisma.collection.findFirst({
+        where: {
+          id: body.collectionId,
+          userId,
+          deletedAt: null,
+        },
+      });
+
+      if (!collection) {
+        return res.status(404).json({ error: 'Coleção não encontrada' });
+      }
+
+      if (isSmartCollection(collection)) {
+        return res.status(400).json({ error: SMART_COLLECTION_ERROR });
+      }
+    }
+
+    const updated = await prisma.feed.update({
+      where: { id: feedId },
+      data: body,
+    });
+
+    res.json({ data: updated });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Dados inválidos', details: error.errors });
+    }
+    next(error);
+  }
+});
+
+// DELETE /feeds/:id - Cancelar assinatura (artigos já salvos são mantidos)
+router.delete('/:id', authToken, async (req: AuthenticatedRequest, res, next) => {
+  try {
+    const userId = req.userId!;
+    const feedId = req.params.id;
+
+    const feed = await prisma.feed.findFirst({
+      where: {
+        id: feedId,
+        userId,
+      },
+    });
+
+    if (!feed) {
+      return res.status(404).json({ error: 'Feed não encontrado' });
+    }
+
+    await prisma.feed.delete({
+      where: { id: feedId },
+    });
+
+    res.status(204).send();
+  } catch (error) {
+    next(error);
+  }
+});
+
+// POST /feeds/:id/poll - Buscar novas entradas agora
+router.post('/:id/poll', authToken, async (req: AuthenticatedRequest, res, next) => {
+  try {
+    const userId = req.userId!;
+    const feedId = req.params.id;
+
+    const feed = await prisma.feed.findFirst({
+      where: {
+        id: feedId,
+        userId,
+      },
+    });
+
+    if (!feed) {
+      return res.status(404).json({ error: 'Feed não encontrado' });
+    }
+
+    const result = await pollFeed(feed);
+
+    res.json({ data: result });
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
@@ -2,6 +2,7 @@ import { Router } from 'express';
 import { z } from 'zod';
 import { prisma } from '../../config/prisma';
 import { authToken, AuthenticatedRequest } from '../../middleware/authToken';
+import { trashHighlights, trashNote } from '../../services/trash';
 
 const router = Router();
 
@@ -29,7 +30,7 @@ router.get('/', authToken, async (req: AuthenticatedRequest, res, next) => {
     const userId = req.userId!;
     const articleId = req.query.articleId as string | undefined;
 
-    const where: any = { userId };
+    const where: any = { userId, deletedAt: null, article: { deletedAt: null } };
     if (articleId) {
       where.articleId = articleId;
     }
@@ -38,7 +39,9 @@ router.get('/', authToken, async (req: AuthenticatedRequest, res, next) => {
       where,
       include: {
         article: true,
-        notes: true,
+        notes: {
+          where: { deletedAt: null },
+        },
       },
       orderBy: { createdAt: 'desc' },
     });
@@ -59,10 +62,13 @@ router.get('/:id', authToken, async (req: AuthenticatedRequest, res, next) => {
       where: {
         id: highlightId,
         userId,
+        deletedAt: null,
       },
       include: {
         article: true,
-        notes: true,
+        notes: {
+          where: { deletedAt: null },
+        },
       },
     });
 
@@ -87,6 +93,7 @@ router.post('/', authToken, async (req: AuthenticatedRequest, res, next) => {
       where: {
         id: body.articleId,
         userId,
+        deletedAt: null,
       },
     });
 
@@ -128,6 +135,7 @@ router.patch('/:id', authToken, async (req: AuthenticatedRequest, res, next) =>
       where: {
         id: highlightId,
         userId,
+        deletedAt: null,
       },
     });
 
@@ -149,7 +157,7 @@ router.patch('/:id', authToken, async (req: AuthenticatedRequest, res, next) =>
   }
 });
 
-// DELETE /highlights/article/:articleId - Deletar todos os highlights de um artigo
+// DELETE /highlights/article/:articleId - Mover todos os highlights de um artigo para a lixeira
 router.delete('/article/:articleId', authToken, async (req: AuthenticatedRequest, res, next) => {
   try {
     const userId = req.userId!;
@@ -160,6 +168,7 @@ router.delete('/article/:articleId', authToken, async (req: AuthenticatedRequest
       where: {
         id: articleId,
         userId,
+        deletedAt: null,
       },
     });
 
@@ -167,13 +176,8 @@ router.delete('/article/:articleId', authToken, async (req: AuthenticatedRequest
       return res.status(404).json({ error: 'Artigo não encontrado' });
     }
 
-    // Delete all highlights for this article (notes are deleted automatically via cascade)
-    await prisma.highlight.deleteMany({
-      where: {
-        articleId,
-        userId,
-      },
-    });
+    // Their notes go to the trash with them
+    await trashHighlights({ articleId, userId });
 
     res.status(204).send();
   } catch (error) {
@@ -181,7 +185,7 @@ router.delete('/article/:articleId', authToken, async (req: AuthenticatedRequest
   }
 });
 
-// DELETE /highlights/:id - Deletar highlight
+// DELETE /highlights/:id - Mover highlight para a lixeira
 router.delete('/:id', authToken, async (req: AuthenticatedRequest, res, next) => {
   try {
     const userId = req.userId!;
@@ -191,6 +195,7 @@ router.delete('/:id', authToken, async (req: AuthenticatedRequest, res, next) =>
       where: {
         id: highlightId,
         userId,
+        deletedAt: null,
       },
     });
 
@@ -198,9 +203,7 @@ router.delete('/:id', authToken, async (req: AuthenticatedRequest, res, next) =>
       return res.status(404).json({ error: 'Highlight não encontrado' });
     }
 
-    await prisma.highlight.delete({
-      where: { id: highlightId },
-    });
+    await trashHighlights({ id: highlightId });
 
     res.status(204).send();
   } catch (error) {
@@ -219,6 +222,7 @@ router.post('/:id/notes', authToken, async (req: AuthenticatedRequest, res, next
       where: {
         id: highlightId,
         userId,
+        deletedAt: null,
       },
     });
 
@@ -260,6 +264,7 @@ router.post('/notes', authToken, async (req: AuthenticatedRequest, res, next) =>
         where: {
           id: body.articleId,
           userId,
+          deletedAt: null,
         },
       });
 
@@ -274,6 +279,7 @@ router.post('/notes', authToken, async (req: AuthenticatedRequest, res, next) =>
         where: {
           id: body.highlightId,
           userId,
+          deletedAt: null,
         },
       });
 
@@ -315,7 +321,7 @@ router.get('/notes', authToken, async (req: AuthenticatedRequest, res, next) =>
     const articleId = req.query.articleId as string | undefined;
     const highlightId = req.query.highlightId as string | undefined;
 
-    const where: any = { userId };
+    const where: any = { userId, deletedAt: null, article: { deletedAt: null } };
     if (articleId) {
       where.articleId = articleId;
     }
@@ -353,6 +359,7 @@ router.patch('/notes/:id', authToken, async (req: AuthenticatedRequest, res, nex
       where: {
         id: noteId,
         userId,
+        deletedAt: null,
       },
     });
 
@@ -371,7 +378,7 @@ router.patch('/notes/:id', authToken, async (req: AuthenticatedRequest, res, nex
   }
 });
 
-// DELETE /notes/:id - Deletar nota
+// DELETE /notes/:id - Mover nota para a lixeira
 router.delete('/notes/:id', authToken, async (req: AuthenticatedRequest, res, next) => {
   try {
     const userId = req.userId!;
@@ -381,6 +388,7 @@ router.delete('/notes/:id', authToken, async (req: AuthenticatedRequest, res, ne
       where: {
         id: noteId,
         userId,
+        deletedAt: null,
       },
     });
 
@@ -388,9 +396,7 @@ router.delete('/notes/:id', authToken, async (req: AuthenticatedRequest, res, ne
       return res.status(404).json({ error: 'Nota não encontrada' });
     }
 
-    await prisma.note.delete({
-      where: { id: noteId },
-    });
+    await trashNote(noteId);
 
     res.status(204).send();
   } catch (error) {
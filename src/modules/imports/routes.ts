@@ -0,0 +1,51 @@
+import { Router } from 'express';
+import multer from 'multer';
+import { authToken, AuthenticatedRequest } from '../../middleware/authToken';
+import { importers, runImport } from '../../services/importers';
+
+const router = Router();
+
+// Export files (or zips of them) are read in memory (20MB limit)
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: 20 * 1024 * 1024, // 20MB
+  },
+});
+
+// GET /imports - Listar fontes de importação suportadas
+router.get('/', authToken, async (_req: AuthenticatedRequest, res) => {
+  res.json({ data: Object.keys(importers) });
+});
+
+// POST /imports/:source - Importar biblioteca de outro serviço (arquivo no campo "file")
+router.post('/:source', authToken, upload.single('file'), async (req: AuthenticatedRequest, res, next) => {
+  try {
+    const userId = req.userId!;
+    const importer = importers[req.params.source];
+
+    if (!importer) {
+      return res.status(404).json({ error: 'Fonte de importação não suportada' });
+    }
+
+    if (!req.file) {
+      return res.status(400).json({ error: 'Arquivo de exportação é obrigatório' });
+    }
+
+    let entries;
+    try {
+      entries = await importer.parse(req.file.buffer);
+    } catch (error) {
+      console.error('Error parsing import file:', error);
+      return res.status(400).json({ error: 'Arquivo de exportação inválido' });
+    }
+
+    const report = await runImport(userId, importer.source, entries);
+
+    res.json({ data: report });
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
@@ -0,0 +1,73 @@
+import express, { Router } from 'express';
+import multer from 'multer';
+import { authToken, AuthenticatedRequest } from '../../middleware/authToken';
+import {
+  saveNewsletter,
+  getInboxToken,
+  rotateInboxToken,
+  getInboxAddress,
+} from '../../services/newsletterIngestion';
+
+const router = Router();
+
+// .eml files are read in memory (20MB limit)
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: 20 * 1024 * 1024, // 20MB
+  },
+});
+
+// Raw messages sent directly as the request body
+const rawMessage = express.raw({
+  type: ['message/rfc822', 'application/octet-stream'],
+  limit: '20mb',
+});
+
+// GET /newsletters/inbox - Endereço de e-mail para receber newsletters
+router.get('/inbox', authToken, async (req: AuthenticatedRequest, res, next) => {
+  try {
+    const userId = req.userId!;
+    const inboxToken = await getInboxToken(userId);
+
+    res.json({ data: { address: getInboxAddress(inboxToken), token: inboxToken } });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// POST /newsletters/inbox/rotate - Gerar novo endereço (o anterior deixa de funcionar)
+router.post('/inbox/rotate', authToken, async (req: AuthenticatedRequest, res, next) => {
+  try {
+    const userId = req.userId!;
+    const inboxToken = await rotateInboxToken(userId);
+
+    res.json({ data: { address: getInboxAddress(inboxToken), token: inboxToken } });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// POST /newsletters - Salvar newsletter a partir de mensagem .eml (campo "file" ou corpo message/rfc822)
+router.post('/', authToken, upload.single('file'), rawMessage, async (req: AuthenticatedRequest, res, next) => {
+  try {
+    const userId = req.userId!;
+    const raw = req.file?.buffer ?? (Buffer.isBuffer(req.body) ? req.body : undefined);
+
+    if (!raw || raw.length === 0) {
+      return res.status(400).json({ error: 'Mensagem de e-mail é obrigatória' });
+    }
+
+    const result = await saveNewsletter(userId, raw);
+
+    if (!result.created) {
+      return res.status(409).json({ error: 'Newsletter já salva', data: result.article });
+    }
+
+    res.status(201).json({ data: result.article });
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
@@ -0,0 +1,75 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { authToken, AuthenticatedRequest } from '../../middleware/authToken';
+import { exportBooks, listHighlights } from '../../services/readwise';
+
+// Readwise-compatible API: tools that sync from Readwise (Obsidian, Notion,
+// Logseq plugins) can point their base URL at /api/readwise and send the
+// access token as "Authorization: Token <token>"
+const router = Router();
+
+const exportQuerySchema = z.object({
+  updatedAfter: z.coerce.date().optional(),
+  pageCursor: z.string().min(1).optional(),
+});
+
+const highlightsQuerySchema = z.object({
+  updated__gt: z.coerce.date().optional(),
+  page: z.coerce.number().int().min(1).default(1),
+  page_size: z.coerce.number().int().min(1).max(1000).default(100),
+});
+
+// GET /readwise/v2/auth - Validar token (204 quando válido)
+router.get('/v2/auth', authToken, (_req: AuthenticatedRequest, res) => {
+  res.status(204).end();
+});
+
+// GET /readwise/v2/export - Livros (artigos) com seus highlights, paginados por pageCursor
+router.get('/v2/export', authToken, async (req: AuthenticatedRequest, res, next) => {
+  try {
+    const userId = req.userId!;
+    const query = exportQuerySchema.parse(req.query);
+
+    res.json(await exportBooks(userId, query));
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Parâmetros inválidos', details: error.errors });
+    }
+    next(error);
+  }
+});
+
+// GET /readwise/v2/highlights - Listar highlights (page, page_size, updated__gt)
+router.get('/v2/highlights', authToken, async (req: AuthenticatedRequest, res, next) => {
+  try {
+    const userId = req.userId!;
+    const query = highlightsQuerySchema.parse(req.query);
+
+    const { count, hasMore, results } = await listHighlights(userId, {
+      updatedAfter: query.updated__gt,
+      page: query.page,
+      pageSize: query.page_size,
+    });
+
+    // Readwise returns the neighbouring pages as full URLs
+    const pageUrl = (page: number) => {
+      const url = new URL(`${req.protocol}://${req.get('host')}${req.originalUrl}`);
+      url.searchParams.set('page', String(page));
+      return url.toString();
+    };
+
+    res.json({
+      count,
+      next: hasMore ? pageUrl(query.page + 1) : null,
+      previous: query.page > 1 ? pageUrl(query.page - 1) : null,
+      results,
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Parâmetros inválidos', details: error.errors });
+    }
+    next(error);
+  }
+});
+
+export default router;
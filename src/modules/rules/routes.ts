@@ -0,0 +1,232 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { Prisma } from '@prisma/client';
+import { prisma } from '../../config/prisma';
+import { authToken, AuthenticatedRequest } from '../../middleware/authToken';
+import { ruleSchema, runRules, type RuleAction } from '../../services/rules';
+
+const router = Router();
+
+const updateRuleSchema = ruleSchema.partial();
+
+const previewRuleSchema = ruleSchema.pick({ matchMode: true, conditions: true });
+
+const runRulesSchema = z.object({
+  ruleIds: z.array(z.string()).min(1).optional(), // Default: every active rule
+  dryRun: z.boolean().default(false),
+});
+
+// GET /rules - Listar regras do usuário (na ordem de execução)
+router.get('/', authToken, async (req: AuthenticatedRequest, res, next) => {
+  try {
+    const userId = req.userId!;
+
+    const rules = await prisma.rule.findMany({
+      where: { userId },
+      orderBy: [{ position: 'asc' }, { createdAt: 'asc' }],
+    });
+
+    res.json({ data: rules });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// POST /rules/preview - Prévia (sem salvar nem alterar nada) dos artigos que as condições selecionam
+router.post('/preview', authToken, async (req: AuthenticatedRequest, res, next) => {
+  try {
+    const userId = req.userId!;
+    const body = previewRuleSchema.parse(req.body);
+
+    const [result] = await runRules(userId, [{ name: 'preview', ...body, actions: [] }], { dryRun: true });
+
+    res.json({ data: result });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Dados inválidos', details: error.errors });
+    }
+    next(error);
+  }
+});
+
+// POST /rules/run - Aplicar regras à biblioteca existente (dryRun: true apenas mostra o que seria alterado)
+router.post('/run', authToken, async (req: AuthenticatedRequest, res, next) => {
+  try {
+    const userId = req.userId!;
+    const body = runRulesSchema.parse(req.body);
+
+    const rules = await prisma.rule.findMany({
+      where: body.ruleIds ? { id: { in: body.ruleIds }, userId } : { userId, isActive: true },
+      orderBy: [{ position: 'asc' }, { createdAt: 'asc' }],
+    });
+
+    if (body.ruleIds && rules.length !== new Set(body.ruleIds).size) {
+      return res.status(404).json({ error: 'Regra não encontrada' });
+    }
+
+    const results = await runRules(userId, rules, { dryRun: body.dryRun });
+
+    res.json({ data: results, dryRun: body.dryRun });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Dados inválidos', details: error.errors });
+    }
+    next(error);
+  }
+});
+
+// GET /rules/:id - Buscar regra específica
+router.get('/:id', authToken, async (req: AuthenticatedRequest, res, next) => {
+  try {
+    const userId = req.userId!;
+    const ruleId = req.params.id;
+
+    const rule = await prisma.rule.findFirst({
+      where: {
+        id: ruleId,
+        userId,
+      },
+    });
+
+    if (!rule) {
+      return res.status(404).json({ error: 'Regra não encontrada' });
+    }
+
+    res.json({ data: rule });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// POST /rules - Criar regra (aplicada a cada novo artigo)
+router.post('/', authToken, async (req: AuthenticatedRequest, res, next) => {
+  try {
+    const userId = req.userId!;
+    const body = ruleSchema.parse(req.body);
+
+    const missing = await findMissingTarget(userId, body.actions);
+    if (missing) {
+      return res.status(404).json({ error: missing });
+    }
+
+    const rule = await prisma.rule.create({
+      data: {
+        ...body,
+        userId,
+      },
+    });
+
+    res.status(201).json({ data: rule });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Dados inválidos', details: error.errors });
+    }
+    next(error);
+  }
+});
+
+// PATCH /rules/:id - Atualizar regra
+router.patch('/:id', authToken, async (req: AuthenticatedRequest, res, next) => {
+  try {
+    const userId = req.userId!;
+    const ruleId = req.params.id;
+    const body = updateRuleSchema.parse(req.body);
+
+    const rule = await prisma.rule.findFirst({
+      where: {
+        id: ruleId,
+        userId,
+      },
+    });
+
+    if (!rule) {
+      return res.status(404).json({ error: 'Regra não encontrada' });
+    }
+
+    if (body.actions) {
+      const missing = await findMissingTarget(userId, body.actions);
+      if (missing) {
+        return res.status(404).json({ error: missing });
+      }
+    }
+
+    const updated = await prisma.rule.update({
+      where: { id: ruleId },
+      data: body,
+    });
+
+    res.json({ data: updated });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Dados inválidos', details: error.errors });
+    }
+    next(error);
+  }
+});
+
+// DELETE /rules/:id - Deletar regra (artigos já organizados não são alterados)
+router.delete('/:id', authToken, async (req: AuthenticatedRequest, res, next) => {
+  try {
+    const userId = req.userId!;
+    const ruleId = req.params.id;
+
+    const rule = await prisma.rule.findFirst({
+      where: {
+        id: ruleId,
+        userId,
+      },
+    });
+
+    if (!rule) {
+      return res.status(404).json({ error: 'Regra não encontrada' });
+    }
+
+    await prisma.rule.delete({
+      where: { id: ruleId },
+    });
+
+    res.status(204).send();
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * Error message when an action points at a tag or collection the user does not have
+ */
+async function findMissingTarget(userId: string, actions: RuleAction[]): Promise<string | null> {
+  for (const action of actions) {
+    if (action.type === 'addTags') {
+      const tagIds = [...new Set(action.tagIds)];
+      const tagCount = await prisma.tag.count({
+        where: {
+          id: { in: tagIds },
+          userId,
+        },
+      });
+
+      if (tagCount !== tagIds.length) {
+        return 'Tag não encontrada';
+      }
+    }
+
+    if (action.type === 'addToCollection') {
+      const collection = await prisma.collection.findFirst({
+        where: {
+          id: action.collectionId,
+          userId,
+          deletedAt: null,
+          query: { equals: Prisma.DbNull }, // Smart collections can't take articles
+        },
+      });
+
+      if (!collection) {
+        return 'Coleção não encontrada';
+      }
+    }
+  }
+
+  return null;
+}
+
+export default router;
@@ -1,6 +1,9 @@
 import { Router } from 'express';
+import { z } from 'zod';
 import { prisma } from '../../config/prisma';
 import { authToken, AuthenticatedRequest } from '../../middleware/authToken';
+import { buildTextSearchWhere } from '../../services/articleFilters';
+import { articleListSelect, listArticles, parseArticleListQuery } from '../../services/articleListing';
 
 const router = Router();
 
@@ -16,42 +19,28 @@ router.get('/', authToken, async (req: AuthenticatedRequest, res, next) => {
     }
 
     const searchQuery = query.trim();
+    const listQuery = parseArticleListQuery(req.query);
+    const pagination: Record<string, unknown> = {};
 
     const results: any = {
       articles: [],
       highlights: [],
     };
 
-    // Search articles
+    // Search articles (cursor and fields= as in GET /articles)
     if (!type || type === 'articles' || type === 'all') {
-      const articles = await prisma.article.findMany({
-        where: {
+      const { items, pagination: articlesPagination } = await listArticles(
+        {
           userId,
-          OR: [
-            { title: { contains: searchQuery, mode: 'insensitive' } },
-            { description: { contains: searchQuery, mode: 'insensitive' } },
-            { url: { contains: searchQuery, mode: 'insensitive' } },
-            { content: { contains: searchQuery, mode: 'insensitive' } },
-            { siteName: { contains: searchQuery, mode: 'insensitive' } },
-          ],
-        },
-        include: {
-          articleTags: {
-            include: {
-              tag: true,
-            },
-          },
-          articleCollections: {
-            include: {
-              collection: true,
-            },
-          },
+          deletedAt: null,
+          ...buildTextSearchWhere(searchQuery),
         },
-        orderBy: { createdAt: 'desc' },
-        take: 50,
-      });
+        { sort: 'createdAt', order: 'desc' },
+        listQuery
+      );
 
-      results.articles = articles;
+      results.articles = items;
+      pagination.articles = articlesPagination;
     }
 
     // Search highlights
@@ -59,11 +48,15 @@ router.get('/', authToken, async (req: AuthenticatedRequest, res, next) => {
       const highlights = await prisma.highlight.findMany({
         where: {
           userId,
+          deletedAt: null,
+          article: { deletedAt: null },
           text: { contains: searchQuery, mode: 'insensitive' },
         },
         include: {
-          article: true,
-          notes: true,
+          article: { select: articleListSelect },
+          notes: {
+            where: { deletedAt: null },
+          },
         },
         orderBy: { createdAt: 'desc' },
         take: 50,
@@ -72,8 +65,11 @@ router.get('/', authToken, async (req: AuthenticatedRequest, res, next) => {
       results.highlights = highlights;
     }
 
-    res.json({ data: results });
+    res.json({ data: results, pagination });
   } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Parâmetros inválidos', details: error.errors });
+    }
     next(error);
   }
 });
@@ -2,6 +2,7 @@ import { Router } from 'express';
 import { z } from 'zod';
 import { prisma } from '../../config/prisma';
 import { authToken, AuthenticatedRequest } from '../../middleware/authToken';
+import { getImageStorageUsage } from '../../services/imageArchiver';
 
 const router = Router();
 
@@ -47,6 +48,86 @@ router.put('/theme', authToken, async (req: AuthenticatedRequest, res, next) =>
   }
 });
 
+// GET /settings/images - Buscar preferência de arquivamento de imagens e uso do storage
+router.get('/images', authToken, async (req: AuthenticatedRequest, res, next) => {
+  try {
+    const userId = req.userId!;
+
+    const [user, usage] = await Promise.all([
+      prisma.user.findUnique({
+        where: { id: userId },
+        select: { archiveImages: true },
+      }),
+      getImageStorageUsage(userId),
+    ]);
+
+    res.json({ data: { archiveImages: user?.archiveImages ?? false, usage } });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// PUT /settings/images - Ativar/desativar o arquivamento de imagens dos artigos salvos
+router.put('/images', authToken, async (req: AuthenticatedRequest, res, next) => {
+  try {
+    const userId = req.userId!;
+    const body = z.object({ archiveImages: z.boolean() }).parse(req.body);
+
+    const [user, usage] = await Promise.all([
+      prisma.user.update({
+        where: { id: userId },
+        data: { archiveImages: body.archiveImages },
+        select: { archiveImages: true },
+      }),
+      getImageStorageUsage(userId),
+    ]);
+
+    res.json({ data: { archiveImages: user.archiveImages, usage } });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Dados inválidos', details: error.errors });
+    }
+    next(error);
+  }
+});
+
+// GET /settings/tags - Buscar preferência de aplicação automática de tags
+router.get('/tags', authToken, async (req: AuthenticatedRequest, res, next) => {
+  try {
+    const userId = req.userId!;
+
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { autoTagArticles: true },
+    });
+
+    res.json({ data: { autoTagArticles: user?.autoTagArticles ?? false } });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// PUT /settings/tags - Ativar/desativar a aplicação automática das tags sugeridas com alta confiança em novos artigos
+router.put('/tags', authToken, async (req: AuthenticatedRequest, res, next) => {
+  try {
+    const userId = req.userId!;
+    const body = z.object({ autoTagArticles: z.boolean() }).parse(req.body);
+
+    const user = await prisma.user.update({
+      where: { id: userId },
+      data: { autoTagArticles: body.autoTagArticles },
+      select: { autoTagArticles: true },
+    });
+
+    res.json({ data: user });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Dados inválidos', details: error.errors });
+    }
+    next(error);
+  }
+});
+
 export default router;
 
 
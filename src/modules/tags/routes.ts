@@ -18,6 +18,7 @@ router.get('/', authToken, async (req: AuthenticatedRequest, res, next) => {
       where: { userId },
       include: {
         articleTags: {
+          where: { article: { deletedAt: null } },
           include: {
             article: true,
           },
@@ -123,6 +124,7 @@ router.post('/:id/articles', authToken, async (req: AuthenticatedRequest, res, n
       where: {
         id: articleId,
         userId,
+        deletedAt: null,
       },
     });
 
@@ -0,0 +1,50 @@
+import { Router } from 'express';
+import { authToken, AuthenticatedRequest } from '../../middleware/authToken';
+import { listTrash, restoreFromTrash, type TrashItemType } from '../../services/trash';
+
+const router = Router();
+
+const TRASH_TYPES: TrashItemType[] = ['article', 'collection', 'highlight', 'note'];
+
+// GET /trash - Listar itens na lixeira (opcional: ?type=article|collection|highlight|note)
+router.get('/', authToken, async (req: AuthenticatedRequest, res, next) => {
+  try {
+    const userId = req.userId!;
+    const type = req.query.type as TrashItemType | undefined;
+
+    if (type && !TRASH_TYPES.includes(type)) {
+      return res.status(400).json({ error: 'Tipo inválido' });
+    }
+
+    const items = await listTrash(userId, type);
+
+    res.json({ data: items });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// POST /trash/:id/restore - Restaurar item da lixeira
+router.post('/:id/restore', authToken, async (req: AuthenticatedRequest, res, next) => {
+  try {
+    const userId = req.userId!;
+    const result = await restoreFromTrash(userId, req.params.id);
+
+    if (result.status === 'not_found') {
+      return res.status(404).json({ error: 'Item não encontrado na lixeira' });
+    }
+
+    if (result.status === 'parent_in_trash') {
+      return res.status(409).json({
+        error: 'Restaure primeiro o item ao qual este pertence',
+        parentId: result.parentId,
+      });
+    }
+
+    res.json({ data: { type: result.type, item: result.item } });
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
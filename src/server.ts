@@ -2,6 +2,10 @@ import express from 'express';
 import cors from 'cors';
 import { env } from './config/env';
 import { errorHandler } from './middleware/errorHandler';
+import { startIngestionWorker } from './services/ingestionQueue';
+import { startFeedPoller } from './services/feedPoller';
+import { startNewsletterSmtpServer } from './services/newsletterSmtp';
+import { startTrashPurger } from './services/trash';
 
 // Rotas
 import tokensRoutes from './modules/tokens/routes';
@@ -12,6 +16,13 @@ import highlightsRoutes from './modules/highlights/routes';
 import searchRoutes from './modules/search/routes';
 import analyticsRoutes from './modules/analytics/routes';
 import settingsRoutes from './modules/settings/routes';
+import importsRoutes from './modules/imports/routes';
+import feedsRoutes from './modules/feeds/routes';
+import newslettersRoutes from './modules/newsletters/routes';
+import trashRoutes from './modules/trash/routes';
+import accountRoutes from './modules/account/routes';
+import readwiseRoutes from './modules/readwise/routes';
+import rulesRoutes from './modules/rules/routes';
 
 const app = express();
 
@@ -36,6 +47,13 @@ app.use('/api/highlights', highlightsRoutes);
 app.use('/api/search', searchRoutes);
 app.use('/api/analytics', analyticsRoutes);
 app.use('/api/settings', settingsRoutes);
+app.use('/api/imports', importsRoutes);
+app.use('/api/feeds', feedsRoutes);
+app.use('/api/newsletters', newslettersRoutes);
+app.use('/api/trash', trashRoutes);
+app.use('/api/account', accountRoutes);
+app.use('/api/readwise', readwiseRoutes);
+app.use('/api/rules', rulesRoutes);
 
 // Error handler (deve ser o último middleware)
 app.use(errorHandler);
@@ -45,5 +63,26 @@ const PORT = env.port || 4000;
 app.listen(PORT, () => {
   console.log(`🚀 Servidor rodando na porta ${PORT}`);
   console.log(`📊 Ambiente: ${env.nodeEnv}`);
+
+  // Worker de extração de conteúdo (fila no banco de dados)
+  if (env.ingestionWorkerEnabled) {
+    startIngestionWorker();
+  }
+
+  // Busca periódica dos feeds assinados
+  if (env.feedPollerEnabled) {
+    startFeedPoller();
+  }
+
+  // Exclusão definitiva dos itens antigos da lixeira
+  if (env.trashPurgeEnabled) {
+    startTrashPurger();
+  }
+
+  // Recebimento de newsletters por e-mail
+  if (env.smtpEnabled) {
+    startNewsletterSmtpServer();
+    console.log(`📬 SMTP de newsletters na porta ${env.smtpPort}`);
+  }
 });
 
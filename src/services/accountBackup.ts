@@ -0,0 +1,677 @@
+import { Readable } from 'stream';
+import JSZip from 'jszip';
+import type {
+  Article,
+  ArticleContentVersion,
+  ArticleImage,
+  Collection,
+  Feed,
+  FeedEntry,
+  Highlight,
+  Note,
+  Prisma,
+  Rule,
+  StoredImage,
+  Tag,
+} from '@prisma/client';
+import { prisma } from '../config/prisma';
+import { env } from '../config/env';
+import { generateUrlHash } from './contentExtractor';
+import { uploadFile, downloadFile } from './storage';
+import type { RuleAction } from './rules';
+import { smartQuerySchema, toStoredQuery } from './smartCollections';
+
+const BACKUP_FORMAT = 'read-it-later-backup';
+const BACKUP_VERSION = 1;
+
+// Keys revived as Date when reading a backup
+const DATE_FIELDS = new Set([
+  'createdAt',
+  'updatedAt',
+  'finishedAt',
+  'lastReadAt',
+  'deletedAt',
+  'snapshotAt',
+  'listenedAt',
+  'nextPollAt',
+  'lastFetchedAt',
+]);
+
+type Owned<T> = Omit<T, 'userId'>;
+
+export interface BackupArticle extends Owned<Article> {
+  tagIds: string[];
+  collectionIds: string[];
+  file: string | null; // Path of the uploaded file inside the zip
+  snapshot: string | null; // Path of the page snapshot inside the zip
+}
+
+export interface BackupImage extends Owned<StoredImage> {
+  file: string | null;
+}
+
+export interface BackupData {
+  settings: { theme: string | null; archiveImages: boolean; autoTagArticles?: boolean };
+  tags: Owned<Tag>[];
+  collections: Owned<Collection>[];
+  articles: BackupArticle[];
+  highlights: Owned<Highlight>[];
+  notes: Owned<Note>[];
+  contentVersions: ArticleContentVersion[];
+  feeds: Owned<Feed>[];
+  feedEntries: FeedEntry[];
+  images: BackupImage[];
+  articleImages: ArticleImage[];
+  rules: Owned<Rule>[];
+}
+
+export interface BackupManifest {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  createdAt: string;
+  counts: Record<string, number>;
+  missingFiles: string[]; // Stored files that could not be downloaded into the backup
+}
+
+export interface Backup {
+  manifest: BackupManifest;
+  data: BackupData;
+  zip: JSZip;
+}
+
+type RestoredEntity = 'tags' | 'collections' | 'articles' | 'highlights' | 'notes' | 'feeds' | 'images' | 'rules';
+
+export interface RestoreReport {
+  created: Record<RestoredEntity, number>;
+  skipped: Record<RestoredEntity, number>; // Already present in the library
+  failed: number; // Articles that could not be restored
+  missingFiles: number; // Files referenced by the backup that could not be restored
+}
+
+/**
+ * Zip with every entity the user owns as JSON (data/*.json) and their
+ * stored files: uploads, page snapshots and archived images.
+ * Nothing is downloaded here: each file is fetched when the zip stream
+ * reaches its entry, so only one file is held in memory at a time. The
+ * JSON and the manifest come last, once it is known which files failed.
+ */
+export async function createBackup(userId: string): Promise<JSZip> {
+  const [user, tags, collections, articles, highlights, notes, contentVersions, feeds, feedEntries, images, articleImages, rules] =
+    await Promise.all([
+      prisma.user.findUniqueOrThrow({ where: { id: userId }, select: { theme: true, archiveImages: true, autoTagArticles: true } }),
+      prisma.tag.findMany({ where: { userId } }),
+      prisma.collection.findMany({ where: { userId } }),
+      prisma.article.findMany({
+        where: { userId },
+        include: {
+          articleTags: { select: { tagId: true } },
+          articleCollections: { select: { collectionId: true } },
+        },
+        orderBy: { createdAt: 'asc' },
+      }),
+      prisma.highlight.findMany({ where: { userId } }),
+      prisma.note.findMany({ where: { userId } }),
+      prisma.articleContentVersion.findMany({ where: { article: { userId } } }),
+      prisma.feed.findMany({ where: { userId } }),
+      prisma.feedEntry.findMany({ where: { feed: { userId } } }),
+      prisma.storedImage.findMany({ where: { userId } }),
+      prisma.articleImage.findMany({ where: { image: { userId } } }),
+      prisma.rule.findMany({ where: { userId } }),
+    ]);
+
+  const zip = new JSZip();
+  const missingFiles: string[] = [];
+
+  // A file that fails to download leaves an empty entry; onMissing clears the path in the JSON
+  const addFile = (fileUrl: string | null, path: string, onMissing: () => void): string | null => {
+    if (!fileUrl) {
+      return null;
+    }
+    zip.file(
+      path,
+      lazyEntry(async () => {
+        try {
+          return await downloadFile(fileUrl);
+        } catch {
+          missingFiles.push(fileUrl);
+          onMissing();
+          return Buffer.alloc(0);
+        }
+      })
+    );
+    return path;
+  };
+
+  const backupArticles: BackupArticle[] = [];
+  for (const { articleTags, articleCollections, ...article } of articles) {
+    const entry: BackupArticle = {
+      ...omitUser(article),
+      tagIds: articleTags.map(link => link.tagId),
+      collectionIds: articleCollections.map(link => link.collectionId),
+      file: null,
+      snapshot: null,
+    };
+    entry.file = addFile(article.fileUrl, `files/${article.id}-${safeFileName(article.fileName || 'file')}`, () => {
+      entry.file = null;
+    });
+    entry.snapshot = addFile(article.snapshotUrl, `snapshots/${article.id}.html`, () => {
+      entry.snapshot = null;
+    });
+    backupArticles.push(entry);
+  }
+
+  const backupImages: BackupImage[] = [];
+  for (const image of images) {
+    const entry: BackupImage = { ...omitUser(image), file: null };
+    entry.file = addFile(image.fileUrl, `images/${image.id}`, () => {
+      entry.file = null;
+    });
+    backupImages.push(entry);
+  }
+
+  const data: BackupData = {
+    settings: user,
+    tags: tags.map(omitUser),
+    collections: collections.map(omitUser),
+    articles: backupArticles,
+    highlights: highlights.map(omitUser),
+    notes: notes.map(omitUser),
+    contentVersions,
+    feeds: feeds.map(omitUser),
+    feedEntries,
+    images: backupImages,
+    articleImages,
+    rules: rules.map(omitUser),
+  };
+
+  for (const [key, value] of Object.entries(data)) {
+    zip.file(`data/${key}.json`, lazyEntry(async () => JSON.stringify(value, null, 2)));
+  }
+
+  zip.file(
+    'manifest.json',
+    lazyEntry(async () => {
+      const manifest: BackupManifest = {
+        format: BACKUP_FORMAT,
+        version: BACKUP_VERSION,
+        createdAt: new Date().toISOString(),
+        counts: Object.fromEntries(
+          Object.entries(data).filter(([, value]) => Array.isArray(value)).map(([key, value]) => [key, value.length])
+        ),
+        missingFiles,
+      };
+      return JSON.stringify(manifest, null, 2);
+    })
+  );
+
+  return zip;
+}
+
+/**
+ * Zip entry whose content is produced when the zip stream starts reading it
+ * (JSZip reads entries in the order they were added)
+ */
+function lazyEntry(produce: () => Promise<Buffer | string>): Readable {
+  return Readable.from(
+    (async function* () {
+      const content = await produce();
+      yield typeof content === 'string' ? Buffer.from(content, 'utf-8') : content;
+    })()
+  );
+}
+
+/**
+ * Open a backup zip. Throws when it is not a backup this version can read.
+ */
+export async function readBackup(buffer: Buffer): Promise<Backup> {
+  const zip = await JSZip.loadAsync(buffer);
+
+  const manifestFile = zip.file('manifest.json');
+  if (!manifestFile) {
+    throw new Error('Backup has no manifest.json');
+  }
+
+  const manifest = JSON.parse(await manifestFile.async('string')) as BackupManifest;
+  if (manifest.format !== BACKUP_FORMAT || typeof manifest.version !== 'number' || manifest.version > BACKUP_VERSION) {
+    throw new Error(`Unsupported backup format: ${manifest.format} v${manifest.version}`);
+  }
+
+  const readJson = async <T>(key: keyof BackupData, fallback: T): Promise<T> => {
+    const file = zip.file(`data/${key}.json`);
+    if (!file) {
+      return fallback;
+    }
+    return JSON.parse(await file.async('string'), (name, value) =>
+      DATE_FIELDS.has(name) && typeof value === 'string' ? new Date(value) : value
+    ) as T;
+  };
+
+  const data: BackupData = {
+    settings: await readJson('settings', { theme: null, archiveImages: false }),
+    tags: await readJson('tags', []),
+    collections: await readJson('collections', []),
+    articles: await readJson('articles', []),
+    highlights: await readJson('highlights', []),
+    notes: await readJson('notes', []),
+    contentVersions: await readJson('contentVersions', []),
+    feeds: await readJson('feeds', []),
+    feedEntries: await readJson('feedEntries', []),
+    images: await readJson('images', []),
+    articleImages: await readJson('articleImages', []),
+    rules: await readJson('rules', []),
+  };
+
+  return { manifest, data, zip };
+}
+
+/**
+ * Rebuild a backup into the user's library. Every row gets a new ID;
+ * references are remapped. Tags and collections with the same name are
+ * reused, and articles (with their highlights and notes) and feeds the
+ * user already has are skipped. Rows are written one at a time, so a
+ * failure leaves what was restored so far in place.
+ */
+export async function restoreBackup(userId: string, backup: Backup): Promise<RestoreReport> {
+  const { data, zip } = backup;
+  const report: RestoreReport = {
+    created: { tags: 0, collections: 0, articles: 0, highlights: 0, notes: 0, feeds: 0, images: 0, rules: 0 },
+    skipped: { tags: 0, collections: 0, articles: 0, highlights: 0, notes: 0, feeds: 0, images: 0, rules: 0 },
+    failed: 0,
+    missingFiles: 0,
+  };
+
+  const readFile = async (path: string | null) => {
+    const file = path ? zip.file(path) : null;
+    return file ? file.async('nodebuffer') : null;
+  };
+
+  // Stored copies restored under a new URL, for rewriting content that points at them
+  const urlMap = new Map<string, string>();
+  const rewriteUrls = (value: string | null) => {
+    if (!value) {
+      return value;
+    }
+    for (const [from, to] of urlMap) {
+      value = value.split(from).join(to);
+    }
+    return value;
+  };
+
+  await prisma.user.update({
+    where: { id: userId },
+    data: {
+      theme: data.settings.theme,
+      archiveImages: data.settings.archiveImages,
+      autoTagArticles: data.settings.autoTagArticles ?? false,
+    },
+  });
+
+  const tagIds = new Map<string, string>();
+  for (const tag of data.tags) {
+    const existing = await prisma.tag.findUnique({ where: { userId_name: { userId, name: tag.name } } });
+    if (existing) {
+      tagIds.set(tag.id, existing.id);
+      report.skipped.tags++;
+      continue;
+    }
+    const created = await prisma.tag.create({ data: { userId, name: tag.name, createdAt: tag.createdAt } });
+    tagIds.set(tag.id, created.id);
+    report.created.tags++;
+  }
+
+  const collectionIds = new Map<string, string>();
+  for (const collection of data.collections) {
+    const existing = collection.deletedAt
+      ? null
+      : await prisma.collection.findFirst({ where: { userId, name: collection.name, deletedAt: null } });
+    if (existing) {
+      collectionIds.set(collection.id, existing.id);
+      report.skipped.collections++;
+      continue;
+    }
+    const created = await prisma.collection.create({
+      data: {
+        userId,
+        name: collection.name,
+        description: collection.description,
+        query: restoreSmartQuery(collection.query, tagIds),
+        createdAt: collection.createdAt,
+        updatedAt: collection.updatedAt,
+        deletedAt: collection.deletedAt,
+      },
+    });
+    collectionIds.set(collection.id, created.id);
+    report.created.collections++;
+  }
+
+  const imageIds = new Map<string, string>();
+  for (const image of data.images) {
+    const existing = await prisma.storedImage.findUnique({ where: { userId_hash: { userId, hash: image.hash } } });
+    if (existing) {
+      imageIds.set(image.id, existing.id);
+      urlMap.set(image.fileUrl, existing.fileUrl);
+      report.skipped.images++;
+      continue;
+    }
+
+    const buffer = await readFile(image.file);
+    const extension = image.mimeType.split('/')[1]?.replace(/[^a-z0-9]/g, '') || 'img';
+    const upload = buffer ? await uploadOrNull(buffer, `image.${extension}`, image.mimeType, userId) : null;
+    if (!upload) {
+      report.missingFiles++;
+      continue;
+    }
+
+    const created = await prisma.storedImage.create({
+      data: {
+        userId,
+        hash: image.hash,
+        fileUrl: upload.fileUrl,
+        mimeType: image.mimeType,
+        size: upload.fileSize,
+        createdAt: image.createdAt,
+      },
+    });
+    imageIds.set(image.id, created.id);
+    urlMap.set(image.fileUrl, created.fileUrl);
+    report.created.images++;
+  }
+
+  const articleIds = new Map<string, string>();
+  for (const article of data.articles) {
+    try {
+      // The stored hash may come from the page's canonical URL rather than article.url
+      const urlHash = article.urlHash ?? (article.url ? generateUrlHash(article.url) : null);
+      const existing = urlHash
+        ? await prisma.article.findFirst({ where: { userId, urlHash } })
+        : article.fileHash
+          ? await prisma.article.findFirst({ where: { userId, fileHash: article.fileHash } })
+          : null;
+
+      if (existing) {
+        report.skipped.articles++;
+        continue;
+      }
+
+      const created = await restoreArticle(userId, article, {
+        urlHash,
+        file: await readFile(article.file),
+        snapshot: await readFile(article.snapshot),
+        tagIds: article.tagIds.map(id => tagIds.get(id)).filter((id): id is string => !!id),
+        collectionIds: article.collectionIds.map(id => collectionIds.get(id)).filter((id): id is string => !!id),
+        rewriteUrls,
+        report,
+      });
+      articleIds.set(article.id, created.id);
+      report.created.articles++;
+    } catch (error) {
+      console.error(`Error restoring article ${article.id}:`, error);
+      report.failed++;
+    }
+  }
+
+  await prisma.articleImage.createMany({
+    data: data.articleImages
+      .filter(link => articleIds.has(link.articleId) && imageIds.has(link.imageId))
+      .map(link => ({
+        articleId: articleIds.get(link.articleId)!,
+        imageId: imageIds.get(link.imageId)!,
+        sourceUrl: link.sourceUrl,
+      })),
+    skipDuplicates: true,
+  });
+
+  await prisma.articleContentVersion.createMany({
+    data: data.contentVersions
+      .filter(version => articleIds.has(version.articleId))
+      .map(version => ({
+        articleId: articleIds.get(version.articleId)!,
+        version: version.version,
+        title: version.title,
+        content: rewriteUrls(version.content),
+        wordCount: version.wordCount,
+        createdAt: version.createdAt,
+      })),
+    skipDuplicates: true,
+  });
+
+  // Highlights and notes of skipped articles are left out with them
+  const highlightIds = new Map<string, string>();
+  for (const highlight of data.highlights) {
+    const articleId = articleIds.get(highlight.articleId);
+    if (!articleId) {
+      report.skipped.highlights++;
+      continue;
+    }
+    const created = await prisma.highlight.create({
+      data: {
+        userId,
+        articleId,
+        text: highlight.text,
+        position: highlight.position,
+        color: highlight.color,
+        createdAt: highlight.createdAt,
+        updatedAt: highlight.updatedAt,
+        deletedAt: highlight.deletedAt,
+      },
+    });
+    highlightIds.set(highlight.id, created.id);
+    report.created.highlights++;
+  }
+
+  for (const note of data.notes) {
+    const articleId = articleIds.get(note.articleId);
+    if (!articleId) {
+      report.skipped.notes++;
+      continue;
+    }
+    await prisma.note.create({
+      data: {
+        userId,
+        articleId,
+        highlightId: note.highlightId ? highlightIds.get(note.highlightId) ?? null : null,
+        content: note.content,
+        createdAt: note.createdAt,
+        updatedAt: note.updatedAt,
+        deletedAt: note.deletedAt,
+      },
+    });
+    report.created.notes++;
+  }
+
+  const feedIds = new Map<string, string>();
+  for (const feed of data.feeds) {
+    const existing = await prisma.feed.findUnique({ where: { userId_url: { userId, url: feed.url } } });
+    if (existing) {
+      report.skipped.feeds++;
+      continue;
+    }
+    const created = await prisma.feed.create({
+      data: {
+        userId,
+        url: feed.url,
+        title: feed.title,
+        siteUrl: feed.siteUrl,
+        description: feed.description,
+        isActive: feed.isActive,
+        pollInterval: feed.pollInterval,
+        lastFetchedAt: feed.lastFetchedAt,
+        etag: feed.etag,
+        lastModified: feed.lastModified,
+        tags: feed.tags,
+        collectionId: feed.collectionId ? collectionIds.get(feed.collectionId) ?? null : null,
+        createdAt: feed.createdAt,
+      },
+    });
+    feedIds.set(feed.id, created.id);
+    report.created.feeds++;
+  }
+
+  // Entries already seen keep the poller from saving old items again
+  await prisma.feedEntry.createMany({
+    data: data.feedEntries
+      .filter(entry => feedIds.has(entry.feedId))
+      .map(entry => ({
+        feedId: feedIds.get(entry.feedId)!,
+        guid: entry.guid,
+        url: entry.url,
+        articleId: entry.articleId ? articleIds.get(entry.articleId) ?? null : null,
+        createdAt: entry.createdAt,
+      })),
+    skipDuplicates: true,
+  });
+
+  // Rules point at the restored tags and collections; actions left without a target are dropped
+  for (const rule of data.rules) {
+    const actions = (rule.actions as RuleAction[]).flatMap((action): RuleAction[] => {
+      if (action.type === 'addTags') {
+        const ids = action.tagIds.map(id => tagIds.get(id)).filter((id): id is string => !!id);
+        return ids.length > 0 ? [{ ...action, tagIds: ids }] : [];
+      }
+      if (action.type === 'addToCollection') {
+        const id = collectionIds.get(action.collectionId);
+        return id ? [{ ...action, collectionId: id }] : [];
+      }
+      return [action];
+    });
+
+    if (actions.length === 0) {
+      report.skipped.rules++;
+      continue;
+    }
+
+    await prisma.rule.create({
+      data: {
+        userId,
+        name: rule.name,
+        matchMode: rule.matchMode,
+        conditions: rule.conditions as Prisma.InputJsonValue,
+        actions,
+        isActive: rule.isActive,
+        position: rule.position,
+        createdAt: rule.createdAt,
+      },
+    });
+    report.created.rules++;
+  }
+
+  return report;
+}
+
+async function restoreArticle(
+  userId: string,
+  article: BackupArticle,
+  options: {
+    urlHash: string | null;
+    file: Buffer | null;
+    snapshot: Buffer | null;
+    tagIds: string[];
+    collectionIds: string[];
+    rewriteUrls: (value: string | null) => string | null;
+    report: RestoreReport;
+  }
+): Promise<Article> {
+  const { report, rewriteUrls } = options;
+
+  let fileUrl: string | null = null;
+  if (article.fileUrl) {
+    const upload = options.file
+      ? await uploadOrNull(options.file, article.fileName || 'file', article.fileType || 'application/octet-stream', userId)
+      : null;
+    fileUrl = upload?.fileUrl ?? null;
+    if (!upload) {
+      report.missingFiles++;
+    }
+  }
+
+  let snapshotUrl: string | null = null;
+  if (article.snapshotUrl) {
+    const upload = options.snapshot ? await uploadOrNull(options.snapshot, 'snapshot.html', 'text/html', userId) : null;
+    snapshotUrl = upload?.fileUrl ?? null;
+    if (!upload) {
+      report.missingFiles++;
+    }
+  }
+
+  // Articles still waiting for extraction go back in the queue
+  const needsExtraction = article.extractionStatus === 'PENDING' || article.extractionStatus === 'RUNNING';
+
+  return prisma.article.create({
+    data: {
+      userId,
+      url: article.url,
+      urlHash: options.urlHash,
+      fileUrl,
+      fileName: article.fileName,
+      fileSize: article.fileSize,
+      fileType: article.fileType,
+      fileHash: article.fileHash,
+      title: article.title,
+      description: article.description,
+      favicon: rewriteUrls(article.favicon),
+      coverImage: rewriteUrls(article.coverImage),
+      siteName: article.siteName,
+      content: rewriteUrls(article.content),
+      contentType: article.contentType,
+      status: article.status,
+      isFavorited: article.isFavorited,
+      rating: article.rating,
+      language: article.language,
+      extractionStatus: needsExtraction ? 'PENDING' : article.extractionStatus,
+      extractionError: article.extractionError,
+      snapshotUrl,
+      snapshotSize: snapshotUrl ? article.snapshotSize : null,
+      snapshotAt: snapshotUrl ? article.snapshotAt : null,
+      contentFingerprint: article.contentFingerprint,
+      summary: article.summary,
+      keySentences: article.keySentences,
+      attributes: (article.attributes ?? undefined) as Prisma.InputJsonValue | undefined,
+      readingProgress: article.readingProgress,
+      readingTime: article.readingTime,
+      wordCount: article.wordCount,
+      lastReadAt: article.lastReadAt,
+      readCount: article.readCount,
+      totalPages: article.totalPages,
+      currentPage: article.currentPage,
+      listeningPosition: article.listeningPosition,
+      listenedAt: article.listenedAt,
+      createdAt: article.createdAt,
+      updatedAt: article.updatedAt,
+      finishedAt: article.finishedAt,
+      deletedAt: article.deletedAt,
+      articleTags: { create: options.tagIds.map(tagId => ({ tagId })) },
+      articleCollections: { create: options.collectionIds.map(collectionId => ({ collectionId })) },
+      ...(needsExtraction ? { extractionJobs: { create: { maxAttempts: env.ingestionMaxAttempts } } } : {}),
+    },
+  });
+}
+
+async function uploadOrNull(buffer: Buffer, fileName: string, mimeType: string, userId: string) {
+  try {
+    return await uploadFile(buffer, fileName, mimeType, userId);
+  } catch (error) {
+    console.error('Error restoring file:', error);
+    return null;
+  }
+}
+
+/**
+ * Saved query of a smart collection, pointing at the restored tags. Tags
+ * missing from the backup keep their old IDs and so match nothing.
+ */
+function restoreSmartQuery(query: Prisma.JsonValue, tagIds: Map<string, string>): Prisma.InputJsonObject | undefined {
+  const parsed = query === null ? null : smartQuerySchema.safeParse(query);
+  if (!parsed?.success) {
+    return undefined;
+  }
+  return toStoredQuery({ ...parsed.data, tagIds: parsed.data.tagIds?.map(id => tagIds.get(id) ?? id) });
+}
+
+function omitUser<T extends { userId: string }>(row: T): Owned<T> {
+  const { userId, ...rest } = row;
+  return rest;
+}
+
+function safeFileName(name: string): string {
+  return name.replace(/[^a-zA-Z0-9.-]/g, '_');
+}
@@ -0,0 +1,194 @@
+import { z } from 'zod';
+import type { Prisma } from '@prisma/client';
+
+// Comma-separated values (?status=UNREAD,READING) or repeated parameters
+export const splitList = (value: unknown) => {
+  if (value === undefined) {
+    return undefined;
+  }
+  const values = Array.isArray(value) ? value : [value];
+  return values.flatMap(item => String(item).split(',')).map(item => item.trim()).filter(Boolean);
+};
+
+const list = <T extends z.ZodTypeAny>(item: T) => z.preprocess(splitList, z.array(item).min(1).optional());
+
+const booleanParam = z.preprocess(
+  value => (value === 'true' ? true : value === 'false' ? false : value),
+  z.boolean().optional()
+);
+
+const countParam = z.coerce.number().int().min(0).optional();
+const dateParam = z.coerce.date().optional();
+
+// Sort keys accepted by ?sort=, mapped to Article fields
+export const SORT_FIELDS = {
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt',
+  finishedAt: 'finishedAt',
+  lastReadAt: 'lastReadAt',
+  title: 'title',
+  siteName: 'siteName',
+  contentType: 'contentType',
+  language: 'language',
+  status: 'status',
+  rating: 'rating',
+  wordCount: 'wordCount',
+  readingTime: 'readingTime',
+  progress: 'readingProgress',
+  readingProgress: 'readingProgress',
+} as const;
+
+// Fields that can be null, sorted with nulls last in either direction
+export const NULLABLE_SORT_FIELDS = new Set<string>(['finishedAt', 'lastReadAt', 'title', 'siteName', 'language', 'rating', 'wordCount', 'readingTime']);
+
+/**
+ * Query parameters accepted by GET /articles (and by endpoints that take
+ * "the same filter as the list", e.g. POST /articles/bulk)
+ */
+export const articleFilterSchema = z.object({
+  status: list(z.enum(['UNREAD', 'READING', 'PAUSED', 'FINISHED', 'ARCHIVED'])),
+  isFavorited: booleanParam,
+  minRating: z.coerce.number().int().min(0).max(5).optional(),
+  tagIds: list(z.string()),
+  tagMode: z.enum(['any', 'all']).default('any'),
+  collectionId: z.string().min(1).optional(),
+  contentType: list(z.enum(['ARTICLE', 'BLOG', 'PDF', 'YOUTUBE', 'TWITTER', 'NEWSLETTER', 'BOOK', 'EBOOK'])),
+  siteName: z.string().min(1).optional(),
+  domain: z.string().min(1).optional(),
+  language: list(z.string()),
+  createdFrom: dateParam,
+  createdTo: dateParam,
+  finishedFrom: dateParam,
+  finishedTo: dateParam,
+  lastReadFrom: dateParam,
+  lastReadTo: dateParam,
+  minWordCount: countParam,
+  maxWordCount: countParam,
+  minReadingTime: countParam, // seconds
+  maxReadingTime: countParam,
+  hasHighlights: booleanParam,
+  hasFile: booleanParam,
+  sort: z.enum(Object.keys(SORT_FIELDS) as [keyof typeof SORT_FIELDS, ...(keyof typeof SORT_FIELDS)[]]).default('createdAt'),
+  order: z.enum(['asc', 'desc']).default('desc'),
+});
+
+export type ArticleFilter = z.infer<typeof articleFilterSchema>;
+
+/**
+ * Parse filter and sort parameters; throws ZodError on invalid values
+ */
+export function parseArticleFilter(query: Record<string, unknown>): ArticleFilter {
+  return articleFilterSchema.parse(query);
+}
+
+/**
+ * Build the Prisma filter for the user's articles
+ */
+export function buildArticleWhere(userId: string, filter: ArticleFilter): Prisma.ArticleWhereInput {
+  const conditions: Prisma.ArticleWhereInput[] = [];
+
+  if (filter.status) {
+    conditions.push({ status: { in: filter.status } });
+  }
+  if (filter.isFavorited !== undefined) {
+    conditions.push({ isFavorited: filter.isFavorited });
+  }
+  if (filter.minRating !== undefined) {
+    conditions.push({ rating: { gte: filter.minRating } });
+  }
+
+  if (filter.tagIds) {
+    if (filter.tagMode === 'all') {
+      conditions.push(...filter.tagIds.map(tagId => ({ articleTags: { some: { tagId } } })));
+    } else {
+      conditions.push({ articleTags: { some: { tagId: { in: filter.tagIds } } } });
+    }
+  }
+  if (filter.collectionId) {
+    conditions.push({ articleCollections: { some: { collectionId: filter.collectionId } } });
+  }
+
+  if (filter.contentType) {
+    conditions.push({ contentType: { in: filter.contentType } });
+  }
+  if (filter.siteName) {
+    conditions.push({ siteName: { equals: filter.siteName, mode: 'insensitive' } });
+  }
+  if (filter.domain) {
+    // Matches the host and its subdomains (example.com also matches www.example.com)
+    const domain = filter.domain.toLowerCase().replace(/^www\./, '');
+    conditions.push({
+      OR: [`://${domain}`, `.${domain}`].flatMap(host => [
+        { url: { contains: `${host}/`, mode: 'insensitive' as const } },
+        { url: { contains: `${host}?`, mode: 'insensitive' as const } },
+        { url: { endsWith: host, mode: 'insensitive' as const } },
+      ]),
+    });
+  }
+  if (filter.language) {
+    conditions.push({ language: { in: filter.language } });
+  }
+
+  addRange(conditions, 'createdAt', filter.createdFrom, filter.createdTo);
+  addRange(conditions, 'finishedAt', filter.finishedFrom, filter.finishedTo);
+  addRange(conditions, 'lastReadAt', filter.lastReadFrom, filter.lastReadTo);
+  addRange(conditions, 'wordCount', filter.minWordCount, filter.maxWordCount);
+  addRange(conditions, 'readingTime', filter.minReadingTime, filter.maxReadingTime);
+
+  if (filter.hasHighlights !== undefined) {
+    // Highlights in the trash don't count
+    conditions.push({
+      highlights: filter.hasHighlights ? { some: { deletedAt: null } } : { none: { deletedAt: null } },
+    });
+  }
+  if (filter.hasFile !== undefined) {
+    conditions.push({ fileUrl: filter.hasFile ? { not: null } : null });
+  }
+
+  // Articles in the trash are only listed by GET /trash
+  return conditions.length > 0 ? { userId, deletedAt: null, AND: conditions } : { userId, deletedAt: null };
+}
+
+/**
+ * Articles whose title, description, URL, content or site name contain the text
+ */
+export function buildTextSearchWhere(text: string): Prisma.ArticleWhereInput {
+  return {
+    OR: [
+      { title: { contains: text, mode: 'insensitive' } },
+      { description: { contains: text, mode: 'insensitive' } },
+      { url: { contains: text, mode: 'insensitive' } },
+      { content: { contains: text, mode: 'insensitive' } },
+      { siteName: { contains: text, mode: 'insensitive' } },
+    ],
+  };
+}
+
+/**
+ * Sort order for the list; ties are broken by id so pages are stable
+ */
+export function buildArticleOrderBy(filter: Pick<ArticleFilter, 'sort' | 'order'>): Prisma.ArticleOrderByWithRelationInput[] {
+  const field = SORT_FIELDS[filter.sort];
+  const primary = NULLABLE_SORT_FIELDS.has(field)
+    ? { [field]: { sort: filter.order, nulls: 'last' } }
+    : { [field]: filter.order };
+
+  return [primary as Prisma.ArticleOrderByWithRelationInput, { id: filter.order }];
+}
+
+function addRange(
+  conditions: Prisma.ArticleWhereInput[],
+  field: 'createdAt' | 'finishedAt' | 'lastReadAt' | 'wordCount' | 'readingTime',
+  from: Date | number | undefined,
+  to: Date | number | undefined
+): void {
+  if (from === undefined && to === undefined) {
+    return;
+  }
+  conditions.push({
+    [field]: {
+      ...(from !== undefined ? { gte: from } : {}),
+      ...(to !== undefined ? { lte: to } : {}),
+    },
+  });
+}
@@ -0,0 +1,234 @@
+import { Prisma, type Article, type ArticleStatus } from '@prisma/client';
+import { prisma } from '../config/prisma';
+import { env } from '../config/env';
+import { extractTitleFromUrl, generateUrlHash, type ExtractedMetadata } from './contentExtractor';
+import { computeFingerprint } from './fingerprint';
+import { summarizeContent } from './summarizer';
+import { applyRulesToArticle } from './rules';
+import { autoApplyTags, shouldAutoTag } from './tagSuggestions';
+import { restoreArticle } from './trash';
+
+export interface UrlArticleInput {
+  url: string;
+  contentType?: ExtractedMetadata['contentType'];
+  title?: string;
+  description?: string;
+  favicon?: string;
+  coverImage?: string;
+  siteName?: string;
+  content?: string;
+  attributes?: Record<string, any>;
+  status?: ArticleStatus;
+  isFavorited?: boolean;
+  createdAt?: Date; // Original save time when importing from another service
+  tagIds?: string[];
+  collectionIds?: string[];
+}
+
+export interface SaveArticleResult {
+  article: Article;
+  created: boolean; // false when the user already had this URL saved
+}
+
+/**
+ * Save a URL for a user, the same way POST /articles does.
+ * The row is created right away; unless the caller already provided a title
+ * and description, the page is extracted later by the ingestion worker.
+ */
+export async function saveUrlArticle(userId: string, input: UrlArticleInput): Promise<SaveArticleResult> {
+  const urlHash = generateUrlHash(input.url);
+
+  // Check for duplicate
+  const existing = await prisma.article.findFirst({
+    where: {
+      urlHash,
+      userId,
+    },
+  });
+
+  // Saving a URL that is in the trash brings the article back
+  if (existing?.deletedAt) {
+    return { article: await restoreArticle(existing), created: true };
+  }
+
+  if (existing) {
+    return { article: existing, created: false };
+  }
+
+  const needsExtraction = !(input.title && input.description);
+  const attributes = input.attributes ?? {};
+
+  const article = await prisma.article.create({
+    data: {
+      url: input.url,
+      urlHash,
+      userId,
+      contentType: input.contentType || 'ARTICLE',
+      // Placeholder title until the worker extracts the page
+      title: input.title || extractTitleFromUrl(input.url),
+      description: input.description,
+      favicon: input.favicon,
+      coverImage: input.coverImage,
+      siteName: input.siteName,
+      content: input.content,
+      contentFingerprint: computeFingerprint(input.content),
+      ...summarizeContent(input.content),
+      attributes: Object.keys(attributes).length > 0 ? attributes : undefined,
+      status: input.status,
+      isFavorited: input.isFavorited,
+      createdAt: input.createdAt,
+      ...(input.tagIds && input.tagIds.length > 0
+        ? { articleTags: { create: input.tagIds.map(tagId => ({ tagId })) } }
+        : {}),
+      ...(input.collectionIds && input.collectionIds.length > 0
+        ? { articleCollections: { create: input.collectionIds.map(collectionId => ({ collectionId })) } }
+        : {}),
+      ...(needsExtraction
+        ? {
+            extractionStatus: 'PENDING' as const,
+            extractionJobs: {
+              create: { maxAttempts: env.ingestionMaxAttempts, isInitial: true },
+            },
+          }
+        : {}),
+    },
+  });
+
+  // Articles waiting for extraction are organized by the worker
+  if (!needsExtraction) {
+    await organizeNewArticle(article);
+  }
+
+  return { article, created: true };
+}
+
+/**
+ * Suggested tags (when the user turned them on) and then the user's rules,
+ * applied once a new article's title and content are known. Failures are
+ * logged; the article is saved either way.
+ */
+export async function organizeNewArticle(article: Article): Promise<void> {
+  if (await shouldAutoTag(article.userId)) {
+    await autoApplyTags(article).catch(error => {
+      console.error(`Error applying tags to article ${article.id}:`, error);
+    });
+  }
+
+  await applyRulesToArticle(article.userId, article.id).catch(error => {
+    console.error(`Error applying rules to article ${article.id}:`, error);
+  });
+}
+
+/**
+ * Hash to store once extraction finds the page's <link rel="canonical">.
+ * Returns undefined when nothing changes or when another of the user's
+ * articles already has that hash (left for duplicate detection to merge).
+ */
+export async function resolveCanonicalUrlHash(
+  article: Pick<Article, 'id' | 'userId' | 'urlHash'>,
+  canonicalUrl: string | undefined
+): Promise<string | undefined> {
+  if (!canonicalUrl || !article.urlHash) {
+    return undefined;
+  }
+
+  const urlHash = generateUrlHash(canonicalUrl);
+  if (urlHash === article.urlHash) {
+    return undefined;
+  }
+
+  const taken = await prisma.article.findFirst({
+    where: {
+      urlHash,
+      userId: article.userId,
+      id: { not: article.id },
+    },
+    select: { id: true },
+  });
+
+  return taken ? undefined : urlHash;
+}
+
+/**
+ * Find or create the user's tags by name, returning their IDs.
+ * An optional cache avoids repeated lookups across many articles.
+ */
+export async function resolveTagIds(
+  userId: string,
+  names: string[],
+  cache: Map<string, string> = new Map()
+): Promise<string[]> {
+  const ids: string[] = [];
+
+  for (const rawName of names) {
+    const name = rawName.trim();
+    if (!name) {
+      continue;
+    }
+
+    let tagId = cache.get(name);
+    if (!tagId) {
+      const tag = await prisma.tag.upsert({
+        where: {
+          userId_name: {
+            userId,
+            name,
+          },
+        },
+        update: {},
+        create: {
+          name,
+          userId,
+        },
+      });
+      tagId = tag.id;
+      cache.set(name, tagId);
+    }
+
+    if (!ids.includes(tagId)) {
+      ids.push(tagId);
+    }
+  }
+
+  return ids;
+}
+
+/**
+ * Find or create the user's collections by name, returning their IDs.
+ * Collection names are not unique, so the oldest match is reused (smart
+ * collections are never reused, as they can't hold imported articles).
+ */
+export async function resolveCollectionIds(
+  userId: string,
+  names: string[],
+  cache: Map<string, string> = new Map()
+): Promise<string[]> {
+  const ids: string[] = [];
+
+  for (const rawName of names) {
+    const name = rawName.trim();
+    if (!name) {
+      continue;
+    }
+
+    let collectionId = cache.get(name);
+    if (!collectionId) {
+      const collection =
+        (await prisma.collection.findFirst({
+          where: { userId, name, deletedAt: null, query: { equals: Prisma.DbNull } },
+          orderBy: { createdAt: 'asc' },
+        })) ??
+        (await prisma.collection.create({
+          data: { name, userId },
+        }));
+      collectionId = collection.id;
+      cache.set(name, collectionId);
+    }
+
+    if (!ids.includes(collectionId)) {
+      ids.push(collectionId);
+    }
+  }
+
+  return ids;
+}
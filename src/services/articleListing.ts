@@ -0,0 +1,234 @@
+import { z } from 'zod';
+import { Prisma, $Enums } from '@prisma/client';
+import { prisma } from '../config/prisma';
+import { buildArticleOrderBy, splitList, SORT_FIELDS, NULLABLE_SORT_FIELDS, type ArticleFilter } from './articleFilters';
+
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 200;
+
+// Heavy or internal columns left out of lists unless asked for with ?fields=
+const HEAVY_FIELDS = new Set<string>(['content', 'attributes', 'contentFingerprint']);
+
+// Relations that can be requested by name in ?fields=
+const RELATION_FIELDS = {
+  articleTags: { include: { tag: true } },
+  articleCollections: { where: { collection: { deletedAt: null } }, include: { collection: true } },
+} as const;
+
+const SCALAR_FIELDS = Object.values(Prisma.ArticleScalarFieldEnum) as string[];
+const FIELD_NAMES = [...SCALAR_FIELDS, ...Object.keys(RELATION_FIELDS)] as [string, ...string[]];
+
+// Enum columns have no lt/gt filters; keyset pages use their declaration order instead
+const ENUM_SORT_VALUES: Record<string, string[]> = {
+  status: Object.values($Enums.ArticleStatus),
+  contentType: Object.values($Enums.ArticleContentType),
+};
+const DATE_SORT_FIELDS = new Set(['createdAt', 'updatedAt', 'finishedAt', 'lastReadAt']);
+
+/**
+ * Default projection for article lists: every column except the heavy ones,
+ * plus tags and collections
+ */
+export const articleListSelect: Prisma.ArticleSelect = {
+  ...Object.fromEntries(SCALAR_FIELDS.filter(field => !HEAVY_FIELDS.has(field)).map(field => [field, true])),
+  ...RELATION_FIELDS,
+};
+
+type SortField = (typeof SORT_FIELDS)[keyof typeof SORT_FIELDS];
+
+interface Cursor {
+  sort: SortField;
+  order: 'asc' | 'desc';
+  value: string | number | null;
+  id: string;
+}
+
+/**
+ * Pagination and projection parameters shared by article lists
+ */
+export const articleListQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(MAX_LIMIT).default(DEFAULT_LIMIT),
+  page: z.coerce.number().int().min(1).optional(),
+  cursor: z
+    .string()
+    .min(1)
+    .transform((value, ctx) => {
+      const cursor = decodeCursor(value);
+      if (!cursor) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Cursor inválido' });
+        return z.NEVER;
+      }
+      return cursor;
+    })
+    .optional(),
+  fields: z.preprocess(splitList, z.array(z.enum(FIELD_NAMES)).min(1).optional()),
+});
+
+export type ArticleListQuery = z.infer<typeof articleListQuerySchema>;
+
+export interface ArticleListPagination {
+  limit: number;
+  nextCursor: string | null;
+  hasMore: boolean;
+  // Offset pages only (no cursor given)
+  page?: number;
+  total?: number;
+  totalPages?: number;
+}
+
+/**
+ * Parse pagination and projection parameters; throws ZodError on invalid values
+ */
+export function parseArticleListQuery(query: Record<string, unknown>): ArticleListQuery {
+  return articleListQuerySchema.parse(query);
+}
+
+/**
+ * Select for ?fields= (id and the sort field are always included, the
+ * latter being needed to build the next cursor)
+ */
+export function buildArticleSelect(fields: string[] | undefined, sortField?: string): Prisma.ArticleSelect {
+  if (!fields) {
+    return articleListSelect;
+  }
+
+  const select: Record<string, unknown> = { id: true };
+  for (const field of fields) {
+    select[field] = field in RELATION_FIELDS ? RELATION_FIELDS[field as keyof typeof RELATION_FIELDS] : true;
+  }
+  if (sortField) {
+    select[sortField] = true;
+  }
+  return select as Prisma.ArticleSelect;
+}
+
+/**
+ * List articles matching where, sorted by the filter's sort key.
+ * With a cursor the page continues right after the cursor's row (keyset);
+ * otherwise ?page= offset pages are served, with totals, as before.
+ * Either way nextCursor points past the page's last row while more remain.
+ */
+export async function listArticles(
+  where: Prisma.ArticleWhereInput,
+  filter: Pick<ArticleFilter, 'sort' | 'order'>,
+  query: ArticleListQuery
+) {
+  const field = SORT_FIELDS[filter.sort];
+  const orderBy = buildArticleOrderBy(filter);
+  const select = buildArticleSelect(query.fields, field);
+
+  if (query.cursor && (query.cursor.sort !== field || query.cursor.order !== filter.order)) {
+    throw new z.ZodError([
+      { code: z.ZodIssueCode.custom, path: ['cursor'], message: 'Cursor não corresponde à ordenação' },
+    ]);
+  }
+
+  const keysetWhere = query.cursor ? { AND: [where, buildKeysetWhere(query.cursor)] } : where;
+  const page = query.cursor ? undefined : query.page ?? 1;
+
+  const [rows, total] = await Promise.all([
+    prisma.article.findMany({
+      where: keysetWhere,
+      select,
+      orderBy,
+      take: query.limit + 1,
+      skip: page ? (page - 1) * query.limit : undefined,
+    }),
+    page ? prisma.article.count({ where }) : Promise.resolve(undefined),
+  ]);
+
+  const hasMore = rows.length > query.limit;
+  const items = hasMore ? rows.slice(0, query.limit) : rows;
+  const last = items[items.length - 1] as Record<string, any> | undefined;
+
+  const pagination: ArticleListPagination = {
+    limit: query.limit,
+    nextCursor: hasMore && last ? encodeCursor({ sort: field, order: filter.order, value: cursorValue(last[field]), id: last.id }) : null,
+    hasMore,
+  };
+  if (page && total !== undefined) {
+    pagination.page = page;
+    pagination.total = total;
+    pagination.totalPages = Math.ceil(total / query.limit);
+  }
+
+  return { items, pagination };
+}
+
+/**
+ * Rows strictly after the given row in the filter's sort order, for callers
+ * that page through articles themselves (e.g. streaming exports)
+ */
+export function buildArticleKeysetWhere(
+  filter: Pick<ArticleFilter, 'sort' | 'order'>,
+  row: Record<string, any> & { id: string }
+): Prisma.ArticleWhereInput {
+  const field = SORT_FIELDS[filter.sort];
+  return buildKeysetWhere({ sort: field, order: filter.order, value: cursorValue(row[field]), id: row.id });
+}
+
+/**
+ * Rows strictly after the cursor in (field, id) order; nulls sort last
+ */
+function buildKeysetWhere(cursor: Cursor): Prisma.ArticleWhereInput {
+  const after = cursor.order === 'desc' ? 'lt' : 'gt';
+  const idAfter = { id: { [after]: cursor.id } };
+  const value = DATE_SORT_FIELDS.has(cursor.sort) && cursor.value !== null ? new Date(cursor.value) : cursor.value;
+
+  if (value === null) {
+    return { AND: [{ [cursor.sort]: null }, idAfter] };
+  }
+
+  let beyond: Prisma.ArticleWhereInput;
+  const enumValues = ENUM_SORT_VALUES[cursor.sort];
+  if (enumValues) {
+    const index = enumValues.indexOf(String(value));
+    const rest = cursor.order === 'desc' ? enumValues.slice(0, index) : enumValues.slice(index + 1);
+    beyond = { [cursor.sort]: { in: rest } };
+  } else {
+    beyond = { [cursor.sort]: { [after]: value } };
+  }
+
+  return {
+    OR: [
+      beyond,
+      { AND: [{ [cursor.sort]: value }, idAfter] },
+      ...(NULLABLE_SORT_FIELDS.has(cursor.sort) ? [{ [cursor.sort]: null }] : []),
+    ],
+  };
+}
+
+function cursorValue(value: unknown): string | number | null {
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+  if (typeof value === 'number' || typeof value === 'string') {
+    return value;
+  }
+  return null;
+}
+
+function isSortField(value: unknown): value is SortField {
+  return (Object.values(SORT_FIELDS) as unknown[]).includes(value);
+}
+
+function encodeCursor(cursor: Cursor): string {
+  return Buffer.from(JSON.stringify([cursor.sort, cursor.order, cursor.value, cursor.id])).toString('base64url');
+}
+
+function decodeCursor(value: string): Cursor | null {
+  try {
+    const [sort, order, sortValue, id] = JSON.parse(Buffer.from(value, 'base64url').toString('utf-8'));
+    if (
+      !isSortField(sort) ||
+      (order !== 'asc' && order !== 'desc') ||
+      typeof id !== 'string' ||
+      !(sortValue === null || typeof sortValue === 'string' || typeof sortValue === 'number')
+    ) {
+      return null;
+    }
+    return { sort, order, value: sortValue, id };
+  } catch {
+    return null;
+  }
+}
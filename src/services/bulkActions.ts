@@ -0,0 +1,175 @@
+import type { ArticleStatus, Prisma } from '@prisma/client';
+import { prisma } from '../config/prisma';
+import { trashArticles } from './trash';
+
+export type BulkAction =
+  | { type: 'setStatus'; status: ArticleStatus }
+  | { type: 'favorite'; isFavorited: boolean }
+  | { type: 'rate'; rating: number | null }
+  | { type: 'addTags'; tagIds: string[] }
+  | { type: 'removeTags'; tagIds: string[] }
+  | { type: 'addToCollection'; collectionId: string }
+  | { type: 'removeFromCollection'; collectionId: string }
+  | { type: 'delete' };
+
+export interface BulkItemResult {
+  id: string;
+  result: 'updated' | 'unchanged' | 'deleted' | 'not_found';
+}
+
+// Fields needed to tell whether an action changes an article
+const bulkSelect = {
+  id: true,
+  status: true,
+  isFavorited: true,
+  rating: true,
+} as const;
+
+type BulkArticle = Prisma.ArticleGetPayload<{ select: typeof bulkSelect }>;
+
+/**
+ * Apply one action to many of the user's articles in a single transaction.
+ * Tag and collection ownership must be checked by the caller.
+ * Returns one result per requested ID, in the requested order.
+ */
+export async function runBulkAction(
+  userId: string,
+  articleIds: string[],
+  action: BulkAction
+): Promise<BulkItemResult[]> {
+  const articles = await prisma.article.findMany({
+    where: {
+      id: { in: articleIds },
+      userId,
+      deletedAt: null,
+    },
+    select: bulkSelect,
+  });
+  const ids = articles.map(article => article.id);
+
+  const changed = await findChanged(articles, action);
+  const operations = buildOperations(ids, changed, action);
+
+  // Deleting moves the articles (with their highlights and notes) to the trash
+  if (action.type === 'delete') {
+    await trashArticles(ids);
+  } else if (operations.length > 0) {
+    await prisma.$transaction(operations);
+  }
+
+  const found = new Set(ids);
+  return articleIds.map((id): BulkItemResult => {
+    if (!found.has(id)) {
+      return { id, result: 'not_found' };
+    }
+    if (action.type === 'delete') {
+      return { id, result: 'deleted' };
+    }
+    return { id, result: changed.has(id) ? 'updated' : 'unchanged' };
+  });
+}
+
+/**
+ * IDs of the articles the action actually modifies
+ */
+async function findChanged(articles: BulkArticle[], action: BulkAction): Promise<Set<string>> {
+  const ids = articles.map(article => article.id);
+
+  switch (action.type) {
+    case 'setStatus':
+      return new Set(articles.filter(article => article.status !== action.status).map(article => article.id));
+    case 'favorite':
+      return new Set(articles.filter(article => article.isFavorited !== action.isFavorited).map(article => article.id));
+    case 'rate':
+      return new Set(articles.filter(article => article.rating !== action.rating).map(article => article.id));
+    case 'addTags':
+    case 'removeTags': {
+      const links = await prisma.articleTag.findMany({
+        where: { articleId: { in: ids }, tagId: { in: action.tagIds } },
+        select: { articleId: true, tagId: true },
+      });
+      if (action.type === 'removeTags') {
+        return new Set(links.map(link => link.articleId));
+      }
+      // Changed unless the article already has every tag
+      const counts = new Map<string, number>();
+      links.forEach(link => counts.set(link.articleId, (counts.get(link.articleId) ?? 0) + 1));
+      const tagCount = new Set(action.tagIds).size;
+      return new Set(ids.filter(id => (counts.get(id) ?? 0) < tagCount));
+    }
+    case 'addToCollection':
+    case 'removeFromCollection': {
+      const links = await prisma.articleCollection.findMany({
+        where: { articleId: { in: ids }, collectionId: action.collectionId },
+        select: { articleId: true },
+      });
+      const inCollection = new Set(links.map(link => link.articleId));
+      return new Set(ids.filter(id => (action.type === 'addToCollection') !== inCollection.has(id)));
+    }
+    case 'delete':
+      return new Set(ids);
+  }
+}
+
+function buildOperations(ids: string[], changed: Set<string>, action: BulkAction): Prisma.PrismaPromise<unknown>[] {
+  const changedIds = ids.filter(id => changed.has(id));
+  if (changedIds.length === 0) {
+    return [];
+  }
+
+  switch (action.type) {
+    case 'setStatus':
+      return [
+        prisma.article.updateMany({
+          where: { id: { in: changedIds } },
+          data: {
+            status: action.status,
+            ...(action.status === 'FINISHED' ? { finishedAt: new Date() } : {}),
+          },
+        }),
+      ];
+    case 'favorite':
+      return [
+        prisma.article.updateMany({
+          where: { id: { in: changedIds } },
+          data: { isFavorited: action.isFavorited },
+        }),
+      ];
+    case 'rate':
+      return [
+        prisma.article.updateMany({
+          where: { id: { in: changedIds } },
+          data: { rating: action.rating },
+        }),
+      ];
+    case 'addTags':
+      return [
+        prisma.articleTag.createMany({
+          data: changedIds.flatMap(articleId => action.tagIds.map(tagId => ({ articleId, tagId }))),
+          skipDuplicates: true,
+        }),
+      ];
+    case 'removeTags':
+      return [
+        prisma.articleTag.deleteMany({
+          where: { articleId: { in: changedIds }, tagId: { in: action.tagIds } },
+        }),
+      ];
+    case 'addToCollection':
+      return [
+        prisma.articleCollection.createMany({
+          data: changedIds.map(articleId => ({ articleId, collectionId: action.collectionId })),
+          skipDuplicates: true,
+        }),
+      ];
+    case 'removeFromCollection':
+      return [
+        prisma.articleCollection.deleteMany({
+          where: { articleId: { in: changedIds }, collectionId: action.collectionId },
+        }),
+      ];
+    case 'delete':
+      // Handled by trashArticles
+      return [];
+  }
+}
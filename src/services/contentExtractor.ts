@@ -1,6 +1,7 @@
 import { JSDOM } from 'jsdom';
 import { Readability } from '@mozilla/readability';
 import crypto from 'crypto';
+import { canonicalizeUrl } from './urlCanonicalizer';
 
 export interface ExtractedMetadata {
   title?: string;
@@ -16,6 +17,7 @@ export interface ExtractedMetadata {
   author?: string;
   publishedDate?: string;
   images?: string[];
+  canonicalUrl?: string; // From <link rel="canonical">, when the page declares one
 }
 
 // Configuration constants
@@ -31,7 +33,16 @@ const CACHE_TTL = 24 * 60 * 60 * 1000; // 24 hours
 // Improved User-Agent to avoid blocking
 const USER_AGENT = 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36';
 
-export async function extractContent(url: string, useCache: boolean = true): Promise<ExtractedMetadata> {
+/**
+ * Fetch a URL and extract its metadata and readable content.
+ * By default failures fall back to minimal metadata built from the URL;
+ * pass throwOnError to let callers (e.g. the ingestion worker) retry instead.
+ */
+export async function extractContent(
+  url: string,
+  useCache: boolean = true,
+  throwOnError: boolean = false
+): Promise<ExtractedMetadata> {
   try {
     // Validate URL
     try {
@@ -82,94 +93,8 @@ export async function extractContent(url: string, useCache: boolean = true): Pro
       console.warn(`Response too large (${html.length} bytes), truncating`);
     }
 
-    // Parse HTML with proper encoding handling
-    const dom = new JSDOM(html, { 
-      url,
-      contentType: 'text/html',
-    });
-    const document = dom.window.document;
-
-    // Extract metadata
-    const metadata: ExtractedMetadata = {
-      contentType,
-      title: extractTitle(document),
-      description: extractDescription(document),
-      favicon: extractFavicon(document, url),
-      coverImage: extractCoverImage(document),
-      siteName: extractSiteName(document),
-      totalPages,
-      author: extractAuthor(document),
-      publishedDate: extractPublishedDate(document),
-    };
-
-    // Use Readability to extract clean content
-    try {
-      const reader = new Readability(dom.window.document);
-      const article = reader.parse();
-
-      if (article) {
-        // Sanitize HTML content
-        let sanitizedContent = sanitizeHtml(article.content || '');
-        
-        // Normalize image URLs to absolute URLs
-        sanitizedContent = normalizeImageUrls(sanitizedContent, url);
-        
-        // Wrap tokens (words, symbols, punctuation) in spans with IDs for future features
-        // Only apply to HTML content, not plain text
-        let tokenIndex = 0;
-        if (sanitizedContent && /<[a-z][\s\S]*>/i.test(sanitizedContent)) {
-          sanitizedContent = wrapTokensInSpans(sanitizedContent);
-          // Count tokens in content to continue numbering for title
-          const tempDom = new JSDOM(sanitizedContent, { contentType: 'text/html' });
-          const contentSpans = tempDom.window.document.querySelectorAll('[id^="ritl-w-"]');
-          if (contentSpans.length > 0) {
-            // Find the highest index
-            contentSpans.forEach((span) => {
-              const match = span.id.match(/ritl-w-(\d+)/);
-              if (match) {
-                const index = parseInt(match[1], 10);
-                if (index >= tokenIndex) {
-                  tokenIndex = index + 1;
-                }
-              }
-            });
-          }
-        }
-        
-        // Process title to add token spans (continuing from content token index)
-        let processedTitle = article.title || metadata.title;
-        if (processedTitle) {
-          processedTitle = wrapTextInSpans(processedTitle, tokenIndex);
-        }
-        
-        // Save HTML content (not just text)
-        metadata.content = sanitizedContent || article.textContent || '';
-        metadata.title = processedTitle;
-        
-        // Extract images from article content
-        if (article.content) {
-          metadata.images = extractImagesFromHtml(article.content);
-        }
-        
-        // Calculate word count and reading time from text content
-        const textContent = article.textContent || '';
-        if (textContent) {
-          const words = textContent.split(/\s+/).filter(word => word.length > 0);
-          metadata.wordCount = words.length;
-          // Average reading speed: 200 words per minute
-          metadata.readingTime = Math.ceil((words.length / 200) * 60);
-        }
-      }
-    } catch (readabilityError) {
-      console.warn('Readability extraction failed, using fallback:', readabilityError);
-      // Improved fallback: try multiple content selectors
-      metadata.content = extractContentFallback(document);
-      if (metadata.content) {
-        const words = metadata.content.split(/\s+/).filter(word => word.length > 0);
-        metadata.wordCount = words.length;
-        metadata.readingTime = Math.ceil((words.length / 200) * 60);
-      }
-    }
+    const metadata = extractFromHtml(html, url, contentType);
+    metadata.totalPages = totalPages;
 
     // Cache the result
     if (useCache) {
@@ -179,6 +104,9 @@ export async function extractContent(url: string, useCache: boolean = true): Pro
     return metadata;
   } catch (error) {
     console.error('Error extracting content:', error);
+    if (throwOnError) {
+      throw error;
+    }
     // Return minimal metadata
     const minimalMetadata = {
       contentType: detectContentType(url),
@@ -188,6 +116,110 @@ export async function extractContent(url: string, useCache: boolean = true): Pro
   }
 }
 
+/**
+ * Run the reading pipeline over an HTML document: page metadata, Readability,
+ * sanitizing, absolute image URLs and token spans. The URL is optional for
+ * documents that were not fetched from the web (e.g. newsletters).
+ */
+export function extractFromHtml(
+  html: string,
+  url: string | undefined,
+  contentType: ExtractedMetadata['contentType']
+): ExtractedMetadata {
+  // Parse HTML with proper encoding handling
+  const dom = new JSDOM(html, { 
+    ...(url ? { url } : {}),
+    contentType: 'text/html',
+  });
+  const document = dom.window.document;
+
+  // Extract metadata
+  const metadata: ExtractedMetadata = {
+    contentType,
+    title: extractTitle(document),
+    description: extractDescription(document),
+    favicon: url ? extractFavicon(document, url) : undefined,
+    canonicalUrl: url ? extractCanonicalUrl(document, url) : undefined,
+    coverImage: extractCoverImage(document),
+    siteName: extractSiteName(document),
+    author: extractAuthor(document),
+    publishedDate: extractPublishedDate(document),
+  };
+
+  // Use Readability to extract clean content
+  try {
+    const reader = new Readability(dom.window.document);
+    const article = reader.parse();
+
+    if (article) {
+      // Sanitize HTML content
+      let sanitizedContent = sanitizeHtml(article.content || '');
+      
+      // Normalize image URLs to absolute URLs
+      if (url) {
+        sanitizedContent = normalizeImageUrls(sanitizedContent, url);
+      }
+      
+      // Wrap tokens (words, symbols, punctuation) in spans with IDs for future features
+      // Only apply to HTML content, not plain text
+      let tokenIndex = 0;
+      if (sanitizedContent && /<[a-z][\s\S]*>/i.test(sanitizedContent)) {
+        sanitizedContent = wrapTokensInSpans(sanitizedContent);
+        // Count tokens in content to continue numbering for title
+        const tempDom = new JSDOM(sanitizedContent, { contentType: 'text/html' });
+        const contentSpans = tempDom.window.document.querySelectorAll('[id^="ritl-w-"]');
+        if (contentSpans.length > 0) {
+          // Find the highest index
+          contentSpans.forEach((span) => {
+            const match = span.id.match(/ritl-w-(\d+)/);
+            if (match) {
+              const index = parseInt(match[1], 10);
+              if (index >= tokenIndex) {
+                tokenIndex = index + 1;
+              }
+            }
+          });
+        }
+      }
+      
+      // Process title to add token spans (continuing from content token index)
+      let processedTitle = article.title || metadata.title;
+      if (processedTitle) {
+        processedTitle = wrapTextInSpans(processedTitle, tokenIndex);
+      }
+      
+      // Save HTML content (not just text)
+      metadata.content = sanitizedContent || article.textContent || '';
+      metadata.title = processedTitle;
+      
+      // Extract images from article content
+      if (article.content) {
+        metadata.images = extractImagesFromHtml(article.content);
+      }
+      
+      // Calculate word count and reading time from text content
+      const textContent = article.textContent || '';
+      if (textContent) {
+        const words = textContent.split(/\s+/).filter(word => word.length > 0);
+        metadata.wordCount = words.length;
+        // Average reading speed: 200 words per minute
+        metadata.readingTime = Math.ceil((words.length / 200) * 60);
+      }
+    }
+  } catch (readabilityError) {
+    console.warn('Readability extraction failed, using fallback:', readabilityError);
+    // Improved fallback: try multiple content selectors
+    metadata.content = extractContentFallback(document);
+    if (metadata.content) {
+      const words = metadata.content.split(/\s+/).filter(word => word.length > 0);
+      metadata.wordCount = words.length;
+      metadata.readingTime = Math.ceil((words.length / 200) * 60);
+    }
+  }
+
+  return metadata;
+}
+
 function detectContentType(url: string): ExtractedMetadata['contentType'] {
   const urlLower = url.toLowerCase();
   
@@ -250,6 +282,31 @@ function extractDescription(document: Document): string | undefined {
   return undefined;
 }
 
+/**
+ * Canonical URL declared by the page. Canonicals pointing at the site root
+ * from a deeper page are a common misconfiguration and are ignored.
+ */
+function extractCanonicalUrl(document: Document, baseUrl: string): string | undefined {
+  const href = document.querySelector('link[rel="canonical"]')?.getAttribute('href');
+  if (!href) {
+    return undefined;
+  }
+
+  try {
+    const canonical = new URL(href.trim(), baseUrl);
+    const page = new URL(baseUrl);
+    if (canonical.protocol !== 'http:' && canonical.protocol !== 'https:') {
+      return undefined;
+    }
+    if (canonical.pathname === '/' && page.pathname !== '/') {
+      return undefined;
+    }
+    return canonical.toString();
+  } catch {
+    return undefined;
+  }
+}
+
 function extractFavicon(document: Document, baseUrl: string): string | undefined {
   const selectors = [
     'link[rel="icon"]',
@@ -328,7 +385,7 @@ function extractSiteName(document: Document): string | undefined {
   return undefined;
 }
 
-function extractTitleFromUrl(url: string): string {
+export function extractTitleFromUrl(url: string): string {
   try {
     const urlObj = new URL(url);
     return urlObj.hostname.replace('www.', '');
@@ -340,7 +397,7 @@ function extractTitleFromUrl(url: string): string {
 /**
  * Fetch with timeout, retry logic, and redirect handling
  */
-async function fetchWithRetry(url: string, retries: number = MAX_RETRIES): Promise<string> {
+export async function fetchWithRetry(url: string, retries: number = MAX_RETRIES): Promise<string> {
   let lastError: Error | null = null;
 
   for (let attempt = 0; attempt <= retries; attempt++) {
@@ -498,6 +555,16 @@ function normalizeImageUrls(html: string, baseUrl: string): string {
   }
 }
 
+/**
+ * Reader HTML for a document Readability rejected: its body, sanitized and
+ * with token spans, as extracted content gets
+ */
+export function toReaderHtml(html: string): string {
+  const dom = new JSDOM(html, { contentType: 'text/html' });
+  const content = sanitizeHtml(dom.window.document.body?.innerHTML ?? '');
+  return content.trim() ? wrapTokensInSpans(content) : '';
+}
+
 /**
  * Sanitize HTML content by removing dangerous elements
  */
@@ -852,8 +919,26 @@ async function extractTwitterMetadata(url: string): Promise<ExtractedMetadata> {
   }
 }
 
+/**
+ * Plain text of a stored HTML field (e.g. a title wrapped in token spans)
+ */
+export function htmlToPlainText(html: string): string {
+  return (JSDOM.fragment(`<div>${html}</div>`).textContent || '').trim();
+}
+
+/**
+ * Title as text. Extracted titles carry the token spans; titles given by
+ * the user or an import are stored as typed and returned unchanged.
+ */
+export function plainTitle(title: string | null): string | null {
+  return title && title.includes('<') ? htmlToPlainText(title) : title;
+}
+
+/**
+ * Hash of the canonical form of a URL, used for duplicate detection
+ */
 export function generateUrlHash(url: string): string {
-  return crypto.createHash('sha256').update(url).digest('hex');
+  return crypto.createHash('sha256').update(canonicalizeUrl(url)).digest('hex');
 }
 
 /**
@@ -0,0 +1,164 @@
+import { JSDOM } from 'jsdom';
+import { Prisma, type Article } from '@prisma/client';
+import { prisma } from '../config/prisma';
+import { computeFingerprint } from './fingerprint';
+import { summarizeContent } from './summarizer';
+
+export interface DiffChunk {
+  type: 'equal' | 'added' | 'removed';
+  text: string;
+}
+
+const MAX_VERSION_ATTEMPTS = 3; // Tries at numbering a new version when refreshes race
+
+// Above this many paragraph comparisons the changed middle is reported as a whole
+const MAX_DIFF_CELLS = 4 * 1000 * 1000;
+
+/**
+ * Update an article, archiving its current title/content/wordCount as a new
+ * version first when the update changes them. Articles without content yet
+ * (still waiting for their first extraction) have nothing to archive.
+ */
+export async function replaceArticleContent(
+  article: Article,
+  data: Prisma.ArticleUpdateInput
+): Promise<Article> {
+  // Keep the duplicate-detection fingerprint and the summary in step with the content
+  if (typeof data.content === 'string' || data.content === null) {
+    data = { ...data, contentFingerprint: computeFingerprint(data.content), ...summarizeContent(data.content) };
+  }
+
+  const changed =
+    article.content !== null &&
+    ((data.content !== undefined && data.content !== article.content) ||
+      (data.title !== undefined && data.title !== article.title));
+
+  if (!changed) {
+    return prisma.article.update({
+      where: { id: article.id },
+      data,
+    });
+  }
+
+  // Two refreshes at once can pick the same version number; the loser retries with the next one
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await prisma.$transaction(async tx => {
+        const latest = await tx.articleContentVersion.aggregate({
+          where: { articleId: article.id },
+          _max: { version: true },
+        });
+
+        await tx.articleContentVersion.create({
+          data: {
+            articleId: article.id,
+            version: (latest._max.version ?? 0) + 1,
+            title: article.title,
+            content: article.content,
+            wordCount: article.wordCount,
+          },
+        });
+
+        return tx.article.update({
+          where: { id: article.id },
+          data,
+        });
+      });
+    } catch (error) {
+      const conflict = error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002';
+      if (!conflict || attempt >= MAX_VERSION_ATTEMPTS) {
+        throw error;
+      }
+    }
+  }
+}
+
+/**
+ * Paragraph-level diff between two stored contents (HTML or plain text)
+ */
+export function diffContent(before: string | null, after: string | null): DiffChunk[] {
+  const a = toParagraphs(before);
+  const b = toParagraphs(after);
+
+  // Strip the common prefix and suffix so only the changed middle is compared
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) {
+    start++;
+  }
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const chunks: DiffChunk[] = a.slice(0, start).map(text => ({ type: 'equal' as const, text }));
+  const midA = a.slice(start, endA);
+  const midB = b.slice(start, endB);
+
+  if (midA.length * midB.length > MAX_DIFF_CELLS) {
+    chunks.push(...midA.map(text => ({ type: 'removed' as const, text })));
+    chunks.push(...midB.map(text => ({ type: 'added' as const, text })));
+  } else {
+    chunks.push(...lcsDiff(midA, midB));
+  }
+
+  chunks.push(...a.slice(endA).map(text => ({ type: 'equal' as const, text })));
+  return chunks;
+}
+
+function lcsDiff(a: string[], b: string[]): DiffChunk[] {
+  // lengths[i][j] = LCS length of a[i..] and b[j..]
+  const lengths: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] = a[i] === b[j]
+        ? lengths[i + 1][j + 1] + 1
+        : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const chunks: DiffChunk[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      chunks.push({ type: 'equal', text: a[i] });
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      chunks.push({ type: 'removed', text: a[i++] });
+    } else {
+      chunks.push({ type: 'added', text: b[j++] });
+    }
+  }
+  while (i < a.length) {
+    chunks.push({ type: 'removed', text: a[i++] });
+  }
+  while (j < b.length) {
+    chunks.push({ type: 'added', text: b[j++] });
+  }
+
+  return chunks;
+}
+
+/**
+ * Reduce stored content to its text paragraphs (token spans and markup removed)
+ */
+function toParagraphs(content: string | null): string[] {
+  if (!content) {
+    return [];
+  }
+
+  // Break lines at block-level boundaries before dropping the markup
+  const withBreaks = content
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/(p|div|h[1-6]|li|blockquote|pre|tr|section|article|figcaption)>/gi, '$&\n');
+  const dom = new JSDOM(`<body>${withBreaks}</body>`, { contentType: 'text/html' });
+  const text = dom.window.document.body.textContent || '';
+
+  return text
+    .split(/\n+/)
+    .map(line => line.replace(/\s+/g, ' ').trim())
+    .filter(line => line.length > 0);
+}
@@ -0,0 +1,156 @@
+import type { Article, ArticleStatus } from '@prisma/client';
+import { prisma } from '../config/prisma';
+import { computeFingerprint, hammingDistance } from './fingerprint';
+import { trashArticles } from './trash';
+
+export const DEFAULT_MAX_DISTANCE = 4; // Bits out of 64
+const MAX_DUPLICATES = 20;
+
+// Fields returned for each duplicate (content is left out)
+const duplicateSelect = {
+  id: true,
+  url: true,
+  fileName: true,
+  title: true,
+  siteName: true,
+  contentType: true,
+  status: true,
+  readingProgress: true,
+  wordCount: true,
+  createdAt: true,
+} as const;
+
+// Progress order used when both articles have the same readingProgress
+const STATUS_RANK: Record<ArticleStatus, number> = {
+  UNREAD: 0,
+  PAUSED: 1,
+  READING: 2,
+  FINISHED: 3,
+  ARCHIVED: 4,
+};
+
+/**
+ * Find the user's articles whose content fingerprint is within maxDistance
+ * bits of this article's: the same story saved from another URL, a
+ * syndicated copy, or an uploaded file with the same text.
+ */
+export async function findDuplicates(article: Article, maxDistance = DEFAULT_MAX_DISTANCE) {
+  let fingerprint = article.contentFingerprint;
+
+  // Articles saved before fingerprints existed get one on first lookup
+  if (!fingerprint && article.content) {
+    fingerprint = computeFingerprint(article.content);
+    if (fingerprint) {
+      await prisma.article.update({
+        where: { id: article.id },
+        data: { contentFingerprint: fingerprint },
+      });
+    }
+  }
+
+  if (!fingerprint) {
+    return [];
+  }
+
+  const candidates = await prisma.article.findMany({
+    where: {
+      userId: article.userId,
+      id: { not: article.id },
+      deletedAt: null,
+      contentFingerprint: { not: null },
+    },
+    select: { id: true, contentFingerprint: true },
+  });
+
+  const matches = candidates
+    .map(candidate => ({ id: candidate.id, distance: hammingDistance(fingerprint!, candidate.contentFingerprint!) }))
+    .filter(match => match.distance <= maxDistance)
+    .sort((a, b) => a.distance - b.distance)
+    .slice(0, MAX_DUPLICATES);
+
+  const articles = await prisma.article.findMany({
+    where: { id: { in: matches.map(match => match.id) } },
+    select: duplicateSelect,
+  });
+  const byId = new Map(articles.map(duplicate => [duplicate.id, duplicate]));
+
+  return matches
+    .filter(match => byId.has(match.id))
+    .map(match => ({
+      article: byId.get(match.id)!,
+      distance: match.distance,
+      similarity: 1 - match.distance / 64,
+    }));
+}
+
+/**
+ * Fold source into target: highlights, notes, tags, collections and feed
+ * entries move to target, which keeps the better reading progress, then
+ * source goes to the trash.
+ */
+export async function mergeArticles(target: Article, source: Article): Promise<Article> {
+  const sourceIsFurther =
+    source.readingProgress > target.readingProgress ||
+    (source.readingProgress === target.readingProgress && STATUS_RANK[source.status] > STATUS_RANK[target.status]);
+  const progress = sourceIsFurther ? source : target;
+
+  const lastReadAt =
+    target.lastReadAt && source.lastReadAt
+      ? (target.lastReadAt > source.lastReadAt ? target.lastReadAt : source.lastReadAt)
+      : target.lastReadAt ?? source.lastReadAt;
+
+  const [sourceTags, sourceCollections] = await Promise.all([
+    prisma.articleTag.findMany({ where: { articleId: source.id }, select: { tagId: true } }),
+    prisma.articleCollection.findMany({ where: { articleId: source.id }, select: { collectionId: true } }),
+  ]);
+
+  const [, , , , , merged] = await prisma.$transaction([
+    prisma.articleTag.createMany({
+      data: sourceTags.map(({ tagId }) => ({ articleId: target.id, tagId })),
+      skipDuplicates: true,
+    }),
+    prisma.articleCollection.createMany({
+      data: sourceCollections.map(({ collectionId }) => ({ articleId: target.id, collectionId })),
+      skipDuplicates: true,
+    }),
+    prisma.highlight.updateMany({
+      where: { articleId: source.id },
+      data: { articleId: target.id },
+    }),
+    prisma.note.updateMany({
+      where: { articleId: source.id },
+      data: { articleId: target.id },
+    }),
+    prisma.feedEntry.updateMany({
+      where: { articleId: source.id },
+      data: { articleId: target.id },
+    }),
+    prisma.article.update({
+      where: { id: target.id },
+      data: {
+        status: progress.status,
+        readingProgress: progress.readingProgress,
+        currentPage: progress.currentPage,
+        finishedAt: progress.finishedAt,
+        lastReadAt,
+        readCount: target.readCount + source.readCount,
+        isFavorited: target.isFavorited || source.isFavorited,
+        rating: target.rating ?? source.rating,
+        // Keep the earliest save date
+        createdAt: source.createdAt < target.createdAt ? source.createdAt : target.createdAt,
+      },
+    }),
+  ]);
+
+  // Purging the source must not remove a file target still points to
+  if (source.fileUrl && source.fileUrl === target.fileUrl) {
+    await prisma.article.update({
+      where: { id: source.id },
+      data: { fileUrl: null },
+    });
+  }
+
+  await trashArticles([source.id]);
+
+  return merged;
+}
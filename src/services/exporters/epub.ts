@@ -0,0 +1,362 @@
+import crypto from 'crypto';
+import JSZip from 'jszip';
+import { JSDOM } from 'jsdom';
+import type { Prisma } from '@prisma/client';
+import { fetchImage } from '../imageArchiver';
+import { plainTitle } from '../contentExtractor';
+
+export interface EpubArticle {
+  id: string;
+  url: string | null;
+  title: string | null;
+  siteName: string | null;
+  coverImage: string | null;
+  content: string | null;
+  language: string | null;
+  attributes: Prisma.JsonValue;
+  createdAt: Date;
+}
+
+export interface EpubOptions {
+  title: string;
+  description?: string | null;
+}
+
+export const MAX_EPUB_ARTICLES = 200;
+
+// Keeps exports of image-heavy collections from growing without bound
+const MAX_IMAGES = 300;
+
+// Image types e-readers are required to support
+const IMAGE_EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/gif': 'gif',
+  'image/webp': 'webp',
+};
+
+const REMOVED_ELEMENTS = 'script, style, link, meta, iframe, object, embed, form, input, button, select, textarea, noscript';
+const XML_NAME_REGEX = /^[A-Za-z_][\w.-]*$/;
+
+const STYLESHEET = `body { margin: 0 5%; line-height: 1.5; }
+h1 { font-size: 1.6em; line-height: 1.2; margin-bottom: 0.3em; }
+.byline, .source { color: #555; font-size: 0.9em; margin: 0.2em 0; }
+.source a { word-break: break-all; }
+img { max-width: 100%; height: auto; }
+figure { margin: 1em 0; }
+pre { white-space: pre-wrap; }
+.cover { text-align: center; }
+.cover img { max-height: 95%; }
+`;
+
+interface ImageStore {
+  zip: JSZip;
+  byUrl: Map<string, { path: string; mimeType: string } | null>;
+}
+
+/**
+ * Build an EPUB 3 book with one chapter per article, a table of contents
+ * (nav document plus NCX for older readers) and a cover. Images are
+ * downloaded and embedded; the ones that cannot be fetched are dropped,
+ * since e-readers usually have no network access.
+ */
+export async function renderEpub(articles: EpubArticle[], options: EpubOptions): Promise<Buffer> {
+  const zip = new JSZip();
+  const images: ImageStore = { zip, byUrl: new Map() };
+  const language = articles.find(article => article.language)?.language ?? 'und';
+  const identifier = `urn:uuid:${crypto.randomUUID()}`;
+
+  // Must be the first entry, uncompressed
+  zip.file('mimetype', 'application/epub+zip', { compression: 'STORE' });
+  zip.file(
+    'META-INF/container.xml',
+    `<?xml version="1.0" encoding="utf-8"?>
+<container version="1.0" xmlns="urn:oasis:names:tc:opendocument:xmlns:container">
+  <rootfiles>
+    <rootfile full-path="OEBPS/content.opf" media-type="application/oebps-package+xml"/>
+  </rootfiles>
+</container>
+`
+  );
+  zip.file('OEBPS/style.css', STYLESHEET);
+
+  const chapters: Array<{ path: string; title: string }> = [];
+  for (const [index, article] of articles.entries()) {
+    const path = `text/chapter-${index + 1}.xhtml`;
+    const title = plainTitle(article.title) || article.url || `Article ${index + 1}`;
+    zip.file(`OEBPS/${path}`, await renderChapter(article, title, language, images));
+    chapters.push({ path, title });
+  }
+
+  const cover = await findCover(articles, images);
+  zip.file('OEBPS/cover.xhtml', renderCover(options, cover?.path, articles.length, language));
+  zip.file('OEBPS/nav.xhtml', renderNav(options.title, chapters, language));
+  zip.file('OEBPS/toc.ncx', renderNcx(options.title, identifier, chapters));
+
+  const authors = [...new Set(articles.map(getAuthor).filter((author): author is string => !!author))];
+  const modified = new Date().toISOString().replace(/\.\d{3}Z$/, 'Z');
+  const manifestImages = [...images.byUrl.values()].filter(
+    (image): image is { path: string; mimeType: string } => !!image
+  );
+
+  const opf = `<?xml version="1.0" encoding="utf-8"?>
+<package xmlns="http://www.idpf.org/2007/opf" version="3.0" unique-identifier="book-id" xml:lang="${escapeXml(language)}">
+  <metadata xmlns:dc="http://purl.org/dc/elements/1.1/">
+    <dc:identifier id="book-id">${identifier}</dc:identifier>
+    <dc:title>${escapeXml(options.title)}</dc:title>
+    <dc:language>${escapeXml(language)}</dc:language>
+${authors.length === 1 ? `    <dc:creator>${escapeXml(authors[0])}</dc:creator>\n` : ''}${
+    options.description ? `    <dc:description>${escapeXml(options.description)}</dc:description>\n` : ''
+  }    <dc:date>${modified}</dc:date>
+    <meta property="dcterms:modified">${modified}</meta>
+${cover ? '    <meta name="cover" content="cover-image"/>\n' : ''}  </metadata>
+  <manifest>
+    <item id="nav" href="nav.xhtml" media-type="application/xhtml+xml" properties="nav"/>
+    <item id="ncx" href="toc.ncx" media-type="application/x-dtbncx+xml"/>
+    <item id="style" href="style.css" media-type="text/css"/>
+    <item id="cover" href="cover.xhtml" media-type="application/xhtml+xml"/>
+${chapters
+  .map((chapter, index) => `    <item id="chapter-${index + 1}" href="${chapter.path}" media-type="application/xhtml+xml"/>`)
+  .join('\n')}
+${manifestImages
+  .map(image => {
+    const id = image === cover ? 'cover-image' : image.path.replace(/\W/g, '-');
+    const properties = image === cover ? ' properties="cover-image"' : '';
+    return `    <item id="${id}" href="${image.path}" media-type="${image.mimeType}"${properties}/>`;
+  })
+  .join('\n')}
+  </manifest>
+  <spine toc="ncx">
+    <itemref idref="cover"/>
+    <itemref idref="nav"/>
+${chapters.map((_, index) => `    <itemref idref="chapter-${index + 1}"/>`).join('\n')}
+  </spine>
+</package>
+`;
+  zip.file('OEBPS/content.opf', opf);
+
+  return zip.generateAsync({ type: 'nodebuffer', compression: 'DEFLATE', mimeType: 'application/epub+zip' });
+}
+
+/**
+ * ASCII file name for the Content-Disposition header
+ */
+export function epubFileName(title: string): string {
+  const slug = title
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 80);
+  return `${slug || 'articles'}.epub`;
+}
+
+async function renderChapter(
+  article: EpubArticle,
+  title: string,
+  language: string,
+  images: ImageStore
+): Promise<string> {
+  const dom = new JSDOM(`<!DOCTYPE html><body>${article.content ?? ''}</body>`);
+  const document = dom.window.document;
+
+  for (const element of Array.from(document.body.querySelectorAll(REMOVED_ELEMENTS))) {
+    element.remove();
+  }
+
+  // XHTML is stricter about attribute names than HTML parsers
+  for (const element of Array.from(document.body.querySelectorAll('*'))) {
+    for (const attribute of Array.from(element.attributes)) {
+      if (!XML_NAME_REGEX.test(attribute.name) || attribute.name.startsWith('on')) {
+        element.removeAttribute(attribute.name);
+      }
+    }
+  }
+
+  for (const image of Array.from(document.body.querySelectorAll('img'))) {
+    const src = image.getAttribute('src');
+    const url = src ? resolveUrl(src, article.url) : undefined;
+    const embedded = url ? await embedImage(url, article.url, images) : null;
+
+    if (!embedded) {
+      image.remove();
+      continue;
+    }
+
+    for (const name of ['srcset', 'sizes', 'loading', 'width', 'height']) {
+      image.removeAttribute(name);
+    }
+    image.setAttribute('src', `../${embedded.path}`);
+    if (!image.hasAttribute('alt')) {
+      image.setAttribute('alt', '');
+    }
+  }
+
+  for (const link of Array.from(document.body.querySelectorAll('a[href]'))) {
+    const href = link.getAttribute('href')!;
+    if (href.startsWith('#')) {
+      continue;
+    }
+    const url = resolveUrl(href, article.url);
+    if (url) {
+      link.setAttribute('href', url);
+    } else if (!/^mailto:/i.test(href)) {
+      link.removeAttribute('href');
+    }
+  }
+
+  const serialized = new dom.window.XMLSerializer().serializeToString(document.body);
+  const body = serialized.replace(/^<body[^>]*>/, '').replace(/<\/body>$/, '');
+
+  const author = getAuthor(article);
+  const byline = [author, article.siteName].filter(Boolean).join(' · ');
+
+  return `<?xml version="1.0" encoding="utf-8"?>
+<!DOCTYPE html>
+<html xmlns="http://www.w3.org/1999/xhtml" xmlns:epub="http://www.idpf.org/2007/ops" lang="${escapeXml(article.language ?? language)}" xml:lang="${escapeXml(article.language ?? language)}">
+<head>
+  <meta charset="utf-8"/>
+  <title>${escapeXml(title)}</title>
+  <link rel="stylesheet" type="text/css" href="../style.css"/>
+</head>
+<body>
+<section epub:type="chapter">
+<h1>${escapeXml(title)}</h1>
+${byline ? `<p class="byline">${escapeXml(byline)}</p>\n` : ''}${
+    article.url ? `<p class="source"><a href="${escapeXml(article.url)}">${escapeXml(article.url)}</a></p>\n` : ''
+  }${body}
+</section>
+</body>
+</html>
+`;
+}
+
+function renderCover(options: EpubOptions, imagePath: string | undefined, count: number, language: string): string {
+  const content = imagePath
+    ? `<img src="${imagePath}" alt="${escapeXml(options.title)}"/>`
+    : `<h1>${escapeXml(options.title)}</h1>
+${options.description ? `<p>${escapeXml(options.description)}</p>\n` : ''}<p>${count} ${count === 1 ? 'article' : 'articles'}</p>`;
+
+  return `<?xml version="1.0" encoding="utf-8"?>
+<!DOCTYPE html>
+<html xmlns="http://www.w3.org/1999/xhtml" xmlns:epub="http://www.idpf.org/2007/ops" lang="${escapeXml(language)}" xml:lang="${escapeXml(language)}">
+<head>
+  <meta charset="utf-8"/>
+  <title>${escapeXml(options.title)}</title>
+  <link rel="stylesheet" type="text/css" href="style.css"/>
+</head>
+<body>
+<section class="cover" epub:type="cover">
+${content}
+</section>
+</body>
+</html>
+`;
+}
+
+function renderNav(title: string, chapters: Array<{ path: string; title: string }>, language: string): string {
+  return `<?xml version="1.0" encoding="utf-8"?>
+<!DOCTYPE html>
+<html xmlns="http://www.w3.org/1999/xhtml" xmlns:epub="http://www.idpf.org/2007/ops" lang="${escapeXml(language)}" xml:lang="${escapeXml(language)}">
+<head>
+  <meta charset="utf-8"/>
+  <title>${escapeXml(title)}</title>
+  <link rel="stylesheet" type="text/css" href="style.css"/>
+</head>
+<body>
+<nav epub:type="toc" id="toc">
+<h1>${escapeXml(title)}</h1>
+<ol>
+${chapters.map(chapter => `  <li><a href="${chapter.path}">${escapeXml(chapter.title)}</a></li>`).join('\n')}
+</ol>
+</nav>
+</body>
+</html>
+`;
+}
+
+function renderNcx(title: string, identifier: string, chapters: Array<{ path: string; title: string }>): string {
+  return `<?xml version="1.0" encoding="utf-8"?>
+<ncx xmlns="http://www.daisy.org/z3986/2005/ncx/" version="2005-1">
+  <head>
+    <meta name="dtb:uid" content="${identifier}"/>
+    <meta name="dtb:depth" content="1"/>
+    <meta name="dtb:totalPageCount" content="0"/>
+    <meta name="dtb:maxPageNumber" content="0"/>
+  </head>
+  <docTitle><text>${escapeXml(title)}</text></docTitle>
+  <navMap>
+${chapters
+  .map(
+    (chapter, index) => `    <navPoint id="nav-${index + 1}" playOrder="${index + 1}">
+      <navLabel><text>${escapeXml(chapter.title)}</text></navLabel>
+      <content src="${chapter.path}"/>
+    </navPoint>`
+  )
+  .join('\n')}
+  </navMap>
+</ncx>
+`;
+}
+
+/**
+ * First article cover image that can be embedded
+ */
+async function findCover(articles: EpubArticle[], images: ImageStore) {
+  for (const article of articles) {
+    const url = article.coverImage ? resolveUrl(article.coverImage, article.url) : undefined;
+    const image = url ? await embedImage(url, article.url, images) : null;
+    if (image) {
+      return image;
+    }
+  }
+  return undefined;
+}
+
+async function embedImage(url: string, referer: string | null, images: ImageStore) {
+  if (images.byUrl.has(url)) {
+    return images.byUrl.get(url)!;
+  }
+  if (images.byUrl.size >= MAX_IMAGES) {
+    return null;
+  }
+
+  let image: { path: string; mimeType: string } | null = null;
+  try {
+    const download = await fetchImage(url, referer ?? undefined);
+    const extension = IMAGE_EXTENSIONS[download.mimeType];
+    if (extension) {
+      image = { path: `images/image-${images.byUrl.size + 1}.${extension}`, mimeType: download.mimeType };
+      images.zip.file(`OEBPS/${image.path}`, download.buffer);
+    }
+  } catch (error) {
+    console.warn(`Could not embed image ${url}:`, error instanceof Error ? error.message : error);
+  }
+
+  images.byUrl.set(url, image);
+  return image;
+}
+
+function getAuthor(article: EpubArticle): string | undefined {
+  const attributes = article.attributes as Record<string, any> | null;
+  return typeof attributes?.author === 'string' && attributes.author ? attributes.author : undefined;
+}
+
+function resolveUrl(url: string, baseUrl: string | null): string | undefined {
+  try {
+    const absolute = new URL(url, baseUrl ?? undefined);
+    return absolute.protocol === 'http:' || absolute.protocol === 'https:' ? absolute.toString() : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
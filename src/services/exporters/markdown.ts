@@ -0,0 +1,381 @@
+import JSZip from 'jszip';
+import { JSDOM } from 'jsdom';
+import type { Prisma } from '@prisma/client';
+import { plainTitle } from '../contentExtractor';
+
+export interface MarkdownArticle {
+  id: string;
+  url: string | null;
+  title: string | null;
+  siteName: string | null;
+  content: string | null;
+  status: string;
+  rating: number | null;
+  isFavorited: boolean;
+  attributes: Prisma.JsonValue;
+  createdAt: Date;
+  updatedAt: Date;
+  finishedAt: Date | null;
+  lastReadAt: Date | null;
+  articleTags: Array<{ tag: { name: string } }>;
+  articleCollections: Array<{ collection: { name: string } }>;
+  highlights: Array<{
+    id: string;
+    text: string;
+    position: string | null;
+    color: string | null;
+    createdAt: Date;
+    notes: Array<{ content: string }>;
+  }>;
+  notes: Array<{ id: string; content: string; highlightId: string | null; createdAt: Date }>;
+}
+
+const BLOCK_ELEMENTS = new Set([
+  'ADDRESS', 'ARTICLE', 'ASIDE', 'BLOCKQUOTE', 'DETAILS', 'DIV', 'DL', 'DD', 'DT', 'FIELDSET', 'FIGCAPTION',
+  'FIGURE', 'FOOTER', 'H1', 'H2', 'H3', 'H4', 'H5', 'H6', 'HEADER', 'HR', 'LI', 'MAIN', 'NAV', 'OL', 'P',
+  'PRE', 'SECTION', 'SUMMARY', 'TABLE', 'UL',
+]);
+const SKIPPED_ELEMENTS = new Set(['SCRIPT', 'STYLE', 'NOSCRIPT', 'IFRAME', 'OBJECT', 'EMBED', 'TEMPLATE', 'BUTTON', 'FORM']);
+
+// Characters Obsidian and Windows reject in file names
+const UNSAFE_FILE_CHARS = /[*"\\/<>:|?#^[\]\u0000-\u001f]/g;
+
+/**
+ * Zip of one Markdown note per article, ready to drop into an
+ * Obsidian/Logseq vault
+ */
+export async function renderMarkdownVault(articles: MarkdownArticle[]): Promise<Buffer> {
+  const zip = new JSZip();
+
+  for (const article of articles) {
+    zip.file(articleFileName(article), renderArticleMarkdown(article));
+  }
+
+  return zip.generateAsync({ type: 'nodebuffer', compression: 'DEFLATE' });
+}
+
+/**
+ * YAML frontmatter, the content as Markdown, then highlights and notes
+ */
+export function renderArticleMarkdown(article: MarkdownArticle): string {
+  const attributes = (article.attributes as Record<string, any> | null) ?? {};
+  const title = plainTitle(article.title) || article.url || 'Untitled';
+
+  const frontmatter = renderFrontmatter({
+    id: article.id,
+    title,
+    url: article.url,
+    author: typeof attributes.author === 'string' ? attributes.author : null,
+    site: article.siteName,
+    // Obsidian tags cannot contain spaces
+    tags: article.articleTags.map(({ tag }) => tag.name.trim().replace(/\s+/g, '-')),
+    collections: article.articleCollections.map(({ collection }) => collection.name),
+    status: article.status,
+    rating: article.rating,
+    favorite: article.isFavorited,
+    created: article.createdAt.toISOString(),
+    updated: article.updatedAt.toISOString(),
+    finished: article.finishedAt?.toISOString() ?? null,
+    lastRead: article.lastReadAt?.toISOString() ?? null,
+  });
+
+  const sections = [frontmatter, `# ${escapeMarkdown(title)}`];
+
+  const body = article.content ? htmlToMarkdown(article.content, article.url) : '';
+  if (body) {
+    sections.push(body);
+  }
+
+  if (article.highlights.length > 0) {
+    sections.push('## Highlights', ...article.highlights.map(highlight => renderHighlight(highlight, article.url)));
+  }
+
+  const articleNotes = article.notes.filter(note => !note.highlightId);
+  if (articleNotes.length > 0) {
+    sections.push('## Notes', ...articleNotes.map(note => quote(note.content)));
+  }
+
+  return sections.join('\n\n') + '\n';
+}
+
+/**
+ * Convert stored article HTML to CommonMark (with GFM tables and strikethrough)
+ */
+export function htmlToMarkdown(html: string, baseUrl: string | null = null): string {
+  const dom = new JSDOM(`<!DOCTYPE html><body>${html}</body>`);
+  const markdown = renderBlocks(dom.window.document.body, baseUrl).join('\n\n');
+  return markdown.replace(/\n{3,}/g, '\n\n').trim();
+}
+
+function renderHighlight(highlight: MarkdownArticle['highlights'][number], url: string | null): string {
+  const lines = [quote(highlight.text)];
+
+  for (const note of highlight.notes) {
+    lines.push('>', quote(note.content, '> > '));
+  }
+
+  // Text fragment links scroll the original page to the highlighted passage
+  const words = highlight.text.trim().split(/\s+/);
+  const fragment = words.length > 8 ? `${words.slice(0, 4).join(' ')},${words.slice(-4).join(' ')}` : words.join(' ');
+  const label = highlight.position || 'source';
+  const source = url
+    ? `[${escapeMarkdown(label)}](${url.split('#')[0]}#:~:text=${encodeTextFragment(fragment)})`
+    : escapeMarkdown(label);
+
+  lines.push('>', `> — ${source} · ${highlight.createdAt.toISOString().slice(0, 10)} ^hl-${highlight.id}`);
+  return lines.join('\n');
+}
+
+function renderFrontmatter(fields: Record<string, string | number | boolean | string[] | null>): string {
+  const lines = ['---'];
+
+  for (const [key, value] of Object.entries(fields)) {
+    if (value === null || value === undefined) {
+      continue;
+    }
+    if (Array.isArray(value)) {
+      if (value.length === 0) {
+        continue;
+      }
+      lines.push(`${key}:`, ...value.map(item => `  - ${JSON.stringify(item)}`));
+    } else if (typeof value === 'string') {
+      // JSON strings are valid double-quoted YAML scalars
+      lines.push(`${key}: ${JSON.stringify(value)}`);
+    } else {
+      lines.push(`${key}: ${value}`);
+    }
+  }
+
+  lines.push('---');
+  return lines.join('\n');
+}
+
+/**
+ * Render children as a list of Markdown blocks; runs of inline content
+ * become paragraphs
+ */
+function renderBlocks(parent: Node, baseUrl: string | null): string[] {
+  const blocks: string[] = [];
+  let inline = '';
+
+  const flush = () => {
+    const text = inline.replace(/\n +/g, '\n').trim();
+    if (text) {
+      blocks.push(text);
+    }
+    inline = '';
+  };
+
+  for (const child of Array.from(parent.childNodes)) {
+    if (child.nodeType === child.ELEMENT_NODE && BLOCK_ELEMENTS.has((child as Element).tagName)) {
+      flush();
+      const block = renderBlock(child as Element, baseUrl);
+      if (block.trim()) {
+        blocks.push(block);
+      }
+    } else {
+      inline += renderInline(child, baseUrl);
+    }
+  }
+  flush();
+
+  return blocks;
+}
+
+function renderBlock(element: Element, baseUrl: string | null): string {
+  const tag = element.tagName;
+
+  switch (tag) {
+    case 'H1':
+    case 'H2':
+    case 'H3':
+    case 'H4':
+    case 'H5':
+    case 'H6': {
+      const text = renderInlineChildren(element, baseUrl).replace(/\s+/g, ' ').trim();
+      return text ? `${'#'.repeat(Number(tag[1]))} ${text}` : '';
+    }
+    case 'HR':
+      return '---';
+    case 'PRE': {
+      const code = element.querySelector('code');
+      const language = /language-([\w-]+)/.exec(code?.className ?? element.className)?.[1] ?? '';
+      const text = (element.textContent ?? '').replace(/\n$/, '');
+      const fence = text.includes('```') ? '~~~' : '```';
+      return `${fence}${language}\n${text}\n${fence}`;
+    }
+    case 'BLOCKQUOTE':
+      return quote(renderBlocks(element, baseUrl).join('\n\n'));
+    case 'UL':
+    case 'OL':
+      return renderList(element, baseUrl);
+    case 'TABLE':
+      return renderTable(element, baseUrl);
+    case 'FIGCAPTION': {
+      const text = renderInlineChildren(element, baseUrl).trim();
+      return text ? `*${text}*` : '';
+    }
+    default:
+      return renderBlocks(element, baseUrl).join('\n\n');
+  }
+}
+
+function renderList(list: Element, baseUrl: string | null): string {
+  const ordered = list.tagName === 'OL';
+  let index = Number(list.getAttribute('start')) || 1;
+  const items: string[] = [];
+
+  for (const item of Array.from(list.children)) {
+    if (item.tagName !== 'LI') {
+      continue;
+    }
+    const marker = ordered ? `${index++}. ` : '- ';
+    // Nested lists stay tight against the item text
+    const content = renderBlocks(item, baseUrl).reduce(
+      (text, block) => (text ? text + (/^(- |\d+\. )/.test(block) ? '\n' : '\n\n') + block : block),
+      ''
+    );
+    // Continuation lines line up with the text after the marker
+    const indented = content.split('\n').map((line, i) => (i === 0 || !line ? line : ' '.repeat(marker.length) + line));
+    items.push(marker + indented.join('\n'));
+  }
+
+  return items.join('\n');
+}
+
+function renderTable(table: Element, baseUrl: string | null): string {
+  const rows = Array.from(table.querySelectorAll('tr')).map(row =>
+    Array.from(row.children)
+      .filter(cell => cell.tagName === 'TD' || cell.tagName === 'TH')
+      .map(cell => renderInlineChildren(cell, baseUrl).replace(/\s+/g, ' ').replace(/\|/g, '\\|').trim())
+  );
+
+  if (rows.length === 0) {
+    return '';
+  }
+
+  const width = Math.max(...rows.map(row => row.length));
+  const pad = (row: string[]) => [...row, ...Array(width - row.length).fill('')];
+  const line = (row: string[]) => `| ${pad(row).join(' | ')} |`;
+
+  return [line(rows[0]), line(Array(width).fill('---')), ...rows.slice(1).map(line)].join('\n');
+}
+
+function renderInlineChildren(element: Node, baseUrl: string | null): string {
+  return Array.from(element.childNodes).map(child => renderInline(child, baseUrl)).join('');
+}
+
+function renderInline(node: Node, baseUrl: string | null): string {
+  if (node.nodeType === node.TEXT_NODE) {
+    return escapeMarkdown((node.textContent ?? '').replace(/\s+/g, ' '));
+  }
+  if (node.nodeType !== node.ELEMENT_NODE) {
+    return '';
+  }
+
+  const element = node as Element;
+  if (SKIPPED_ELEMENTS.has(element.tagName)) {
+    return '';
+  }
+
+  switch (element.tagName) {
+    case 'BR':
+      return '  \n';
+    case 'STRONG':
+    case 'B':
+      return wrap(renderInlineChildren(element, baseUrl), '**');
+    case 'EM':
+    case 'I':
+      return wrap(renderInlineChildren(element, baseUrl), '*');
+    case 'DEL':
+    case 'S':
+    case 'STRIKE':
+      return wrap(renderInlineChildren(element, baseUrl), '~~');
+    case 'CODE': {
+      const text = element.textContent ?? '';
+      const fence = text.includes('`') ? '``' : '`';
+      return text ? `${fence}${text}${fence}` : '';
+    }
+    case 'A': {
+      const text = renderInlineChildren(element, baseUrl).trim();
+      const href = resolveUrl(element.getAttribute('href'), baseUrl);
+      return href && text ? `[${text}](${href})` : text;
+    }
+    case 'IMG': {
+      const src = resolveUrl(element.getAttribute('src'), baseUrl);
+      const alt = escapeMarkdown(element.getAttribute('alt') ?? '');
+      return src ? `![${alt}](${src})` : '';
+    }
+    default:
+      // Block elements nested in inline ones (e.g. <div> inside <a>) are flattened
+      return renderInlineChildren(element, baseUrl);
+  }
+}
+
+function wrap(text: string, marker: string): string {
+  const trimmed = text.trim();
+  if (!trimmed) {
+    return text;
+  }
+  // Keep surrounding spaces outside the markers, where Markdown needs them
+  const leading = text.startsWith(' ') ? ' ' : '';
+  const trailing = text.endsWith(' ') ? ' ' : '';
+  return `${leading}${marker}${trimmed}${marker}${trailing}`;
+}
+
+function quote(text: string, prefix = '> '): string {
+  return text
+    .trim()
+    .split('\n')
+    .map(line => (line ? prefix + line : prefix.trimEnd()))
+    .join('\n');
+}
+
+function escapeMarkdown(text: string): string {
+  return text.replace(/([\\`*_[\]<])/g, '\\$1').replace(/^(#{1,6} |[-+>] |\d+\. )/, '\\$1');
+}
+
+function encodeTextFragment(text: string): string {
+  // Commas and dashes separate text fragment parts, so they must be encoded
+  return text
+    .split(',')
+    .map(part => encodeURIComponent(part).replace(/-/g, '%2D'))
+    .join(',');
+}
+
+function resolveUrl(url: string | null, baseUrl: string | null): string | undefined {
+  if (!url) {
+    return undefined;
+  }
+  if (url.startsWith('#') || /^mailto:/i.test(url)) {
+    return url;
+  }
+
+  try {
+    const absolute = new URL(url, baseUrl ?? undefined);
+    if (absolute.protocol !== 'http:' && absolute.protocol !== 'https:') {
+      return undefined;
+    }
+    // Parentheses and spaces would end the Markdown link early
+    return absolute.toString().replace(/\(/g, '%28').replace(/\)/g, '%29').replace(/ /g, '%20');
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * File name from the title plus the end of the article ID, so same-titled
+ * articles never collide and every export (full or since=) names an
+ * article the same way
+ */
+function articleFileName(article: MarkdownArticle): string {
+  const base = (plainTitle(article.title) || article.url || '')
+    .replace(UNSAFE_FILE_CHARS, ' ')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .slice(0, 100);
+
+  const shortId = article.id.slice(-8);
+  return base ? `${base} (${shortId}).md` : `${article.id}.md`;
+}
+
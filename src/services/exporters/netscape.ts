@@ -0,0 +1,84 @@
+import { htmlToPlainText } from '../contentExtractor';
+
+export interface BookmarkArticle {
+  url: string | null;
+  fileUrl: string | null;
+  title: string | null;
+  description: string | null;
+  createdAt: Date;
+  articleTags: Array<{ tag: { name: string } }>;
+  articleCollections: Array<{ collection: { name: string } }>;
+}
+
+/**
+ * Render articles as a Netscape bookmark file. Each collection becomes a
+ * folder (an article in several collections appears in each of them);
+ * articles outside any collection stay at the top level.
+ */
+export function renderNetscapeBookmarks(articles: BookmarkArticle[]): string {
+  const folders = new Map<string, BookmarkArticle[]>();
+  const unfiled: BookmarkArticle[] = [];
+
+  for (const article of articles) {
+    if (!article.url && !article.fileUrl) {
+      continue;
+    }
+    if (article.articleCollections.length === 0) {
+      unfiled.push(article);
+      continue;
+    }
+    for (const { collection } of article.articleCollections) {
+      const list = folders.get(collection.name) ?? [];
+      list.push(article);
+      folders.set(collection.name, list);
+    }
+  }
+
+  const lines = [
+    '<!DOCTYPE NETSCAPE-Bookmark-file-1>',
+    '<!-- This is an automatically generated file.',
+    '     It will be read and overwritten.',
+    '     DO NOT EDIT! -->',
+    '<META HTTP-EQUIV="Content-Type" CONTENT="text/html; charset=UTF-8">',
+    '<TITLE>Bookmarks</TITLE>',
+    '<H1>Bookmarks</H1>',
+    '<DL><p>',
+  ];
+
+  for (const [name, folderArticles] of folders) {
+    lines.push(`    <DT><H3>${escapeHtml(name)}</H3>`);
+    lines.push('    <DL><p>');
+    folderArticles.forEach(article => lines.push(...renderBookmark(article, '        ')));
+    lines.push('    </DL><p>');
+  }
+  unfiled.forEach(article => lines.push(...renderBookmark(article, '    ')));
+
+  lines.push('</DL><p>');
+  return lines.join('\n') + '\n';
+}
+
+function renderBookmark(article: BookmarkArticle, indent: string): string[] {
+  const href = article.url || article.fileUrl || '';
+  const title = article.title ? htmlToPlainText(article.title) : href;
+  const addDate = Math.floor(article.createdAt.getTime() / 1000);
+  const tags = article.articleTags.map(at => at.tag.name).join(',');
+
+  const lines = [
+    `${indent}<DT><A HREF="${escapeHtml(href)}" ADD_DATE="${addDate}"${tags ? ` TAGS="${escapeHtml(tags)}"` : ''}>${escapeHtml(title)}</A>`,
+  ];
+  if (article.description) {
+    lines.push(`${indent}<DD>${escapeHtml(article.description)}`);
+  }
+  return lines;
+}
+
+function escapeHtml(str: string): string {
+  const map: { [key: string]: string } = {
+    '&': '&amp;',
+    '<': '&lt;',
+    '>': '&gt;',
+    '"': '&quot;',
+    "'": '&#039;'
+  };
+  return str.replace(/[&<>"']/g, (m) => map[m]);
+}
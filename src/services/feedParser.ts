@@ -0,0 +1,191 @@
+import { JSDOM } from 'jsdom';
+
+export interface FeedItem {
+  guid: string; // Stable identifier used to recognize entries already seen
+  url: string;
+  title?: string;
+  summary?: string;
+  author?: string;
+  publishedAt?: Date;
+}
+
+export interface ParsedFeed {
+  format: 'rss' | 'atom' | 'json';
+  title?: string;
+  siteUrl?: string;
+  description?: string;
+  items: FeedItem[];
+}
+
+/**
+ * Parse an RSS 2.0 / RSS 1.0 (RDF), Atom or JSON Feed document.
+ * Relative entry links are resolved against the feed URL.
+ */
+export function parseFeed(body: string, feedUrl: string): ParsedFeed {
+  const trimmed = body.trimStart();
+
+  if (trimmed.startsWith('{')) {
+    return parseJsonFeed(JSON.parse(trimmed), feedUrl);
+  }
+
+  let document: Document;
+  try {
+    document = new JSDOM(trimmed, { contentType: 'text/xml' }).window.document;
+  } catch {
+    throw new Error('Feed is not valid XML');
+  }
+
+  const root = document.documentElement;
+  const rootName = root.localName.toLowerCase();
+
+  if (rootName === 'feed') {
+    return parseAtom(root, feedUrl);
+  }
+  if (rootName === 'rss' || rootName === 'rdf') {
+    return parseRss(root, feedUrl);
+  }
+
+  throw new Error(`Unsupported feed format: <${root.localName}>`);
+}
+
+function parseRss(root: Element, feedUrl: string): ParsedFeed {
+  const channel = findChild(root, 'channel');
+  // RSS 2.0 nests items in the channel; RSS 1.0 puts them next to it
+  const itemParent = channel && findChildren(channel, 'item').length > 0 ? channel : root;
+
+  const items = findChildren(itemParent, 'item')
+    .map((item): FeedItem | null => {
+      const url = resolveUrl(
+        childText(item, 'link') || (isPermalink(item) ? childText(item, 'guid') : undefined),
+        feedUrl
+      );
+      if (!url) {
+        return null;
+      }
+      return {
+        guid: childText(item, 'guid') || item.getAttribute('rdf:about') || url,
+        url,
+        title: childText(item, 'title'),
+        summary: childText(item, 'description'),
+        author: childText(item, 'creator') || childText(item, 'author'),
+        publishedAt: parseDate(childText(item, 'pubDate') || childText(item, 'date')),
+      };
+    })
+    .filter((item): item is FeedItem => item !== null);
+
+  return {
+    format: 'rss',
+    title: channel ? childText(channel, 'title') : undefined,
+    siteUrl: channel ? resolveUrl(childText(channel, 'link'), feedUrl) : undefined,
+    description: channel ? childText(channel, 'description') : undefined,
+    items,
+  };
+}
+
+function parseAtom(root: Element, feedUrl: string): ParsedFeed {
+  const items = findChildren(root, 'entry')
+    .map((entry): FeedItem | null => {
+      const url = resolveUrl(atomLink(entry), feedUrl);
+      if (!url) {
+        return null;
+      }
+      const author = findChild(entry, 'author');
+      return {
+        guid: childText(entry, 'id') || url,
+        url,
+        title: childText(entry, 'title'),
+        summary: childText(entry, 'summary'),
+        author: author ? childText(author, 'name') : undefined,
+        publishedAt: parseDate(childText(entry, 'published') || childText(entry, 'updated')),
+      };
+    })
+    .filter((item): item is FeedItem => item !== null);
+
+  return {
+    format: 'atom',
+    title: childText(root, 'title'),
+    siteUrl: resolveUrl(atomLink(root), feedUrl),
+    description: childText(root, 'subtitle'),
+    items,
+  };
+}
+
+function parseJsonFeed(data: any, feedUrl: string): ParsedFeed {
+  if (typeof data?.version !== 'string' || !data.version.includes('jsonfeed.org')) {
+    throw new Error('Unsupported JSON feed');
+  }
+
+  const items = (Array.isArray(data.items) ? data.items : [])
+    .map((item: any): FeedItem | null => {
+      const url = resolveUrl(item.url || item.external_url, feedUrl);
+      if (!url) {
+        return null;
+      }
+      const author = Array.isArray(item.authors) ? item.authors[0] : item.author;
+      return {
+        guid: String(item.id ?? url),
+        url,
+        title: item.title || undefined,
+        summary: item.summary || undefined,
+        author: author?.name || undefined,
+        publishedAt: parseDate(item.date_published || item.date_modified),
+      };
+    })
+    .filter((item: FeedItem | null): item is FeedItem => item !== null);
+
+  return {
+    format: 'json',
+    title: data.title || undefined,
+    siteUrl: resolveUrl(data.home_page_url, feedUrl),
+    description: data.description || undefined,
+    items,
+  };
+}
+
+/**
+ * Atom entries and feeds may have several links; prefer rel="alternate"
+ */
+function atomLink(element: Element): string | undefined {
+  const links = findChildren(element, 'link');
+  const alternate = links.find(link => (link.getAttribute('rel') || 'alternate') === 'alternate');
+  return (alternate || links[0])?.getAttribute('href') || undefined;
+}
+
+function isPermalink(item: Element): boolean {
+  const guid = findChild(item, 'guid');
+  return !!guid && guid.getAttribute('isPermaLink') !== 'false';
+}
+
+// Namespaced elements (dc:creator, content:encoded) are matched by local name
+function findChildren(element: Element, localName: string): Element[] {
+  const name = localName.toLowerCase();
+  return Array.from(element.children).filter(child => child.localName.toLowerCase() === name);
+}
+
+function findChild(element: Element, localName: string): Element | undefined {
+  return findChildren(element, localName)[0];
+}
+
+function childText(element: Element, localName: string): string | undefined {
+  const text = findChild(element, localName)?.textContent?.trim();
+  return text || undefined;
+}
+
+function resolveUrl(value: string | undefined, base: string): string | undefined {
+  if (!value) {
+    return undefined;
+  }
+  try {
+    return new URL(value.trim(), base).toString();
+  } catch {
+    return undefined;
+  }
+}
+
+function parseDate(value: string | undefined): Date | undefined {
+  if (!value) {
+    return undefined;
+  }
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? undefined : date;
+}
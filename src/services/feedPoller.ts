@@ -0,0 +1,224 @@
+import type { Feed } from '@prisma/client';
+import { prisma } from '../config/prisma';
+import { env } from '../config/env';
+import { parseFeed } from './feedParser';
+import { saveUrlArticle, resolveTagIds } from './articleIngestion';
+
+// Configuration constants
+const FETCH_TIMEOUT = 30000; // 30 seconds
+const MAX_RESPONSE_SIZE = 5 * 1024 * 1024; // 5MB
+const MAX_ITEMS_PER_POLL = 50; // New entries saved per poll; the rest wait for the next one
+export const MIN_POLL_INTERVAL = 300; // 5 minutes, in seconds
+
+const USER_AGENT = 'Mozilla/5.0 (compatible; ReadItLater feed reader)';
+
+let pollerTimer: NodeJS.Timeout | null = null;
+
+export interface PollResult {
+  status: 'updated' | 'not-modified' | 'failed';
+  saved: number; // Articles created
+  seen: number; // New entries recorded (saved or not)
+  error?: string;
+}
+
+/**
+ * Start polling subscribed feeds whose nextPollAt is due
+ */
+export function startFeedPoller(): void {
+  if (pollerTimer) {
+    return;
+  }
+
+  const tick = async () => {
+    try {
+      while (await pollNextDueFeed()) {
+        // keep going
+      }
+    } catch (error) {
+      console.error('Feed poller error:', error);
+    } finally {
+      pollerTimer = setTimeout(tick, env.feedPollerInterval);
+    }
+  };
+
+  pollerTimer = setTimeout(tick, 0);
+}
+
+/**
+ * Claim and poll the next due feed. Returns false when none is due.
+ */
+async function pollNextDueFeed(): Promise<boolean> {
+  const now = new Date();
+
+  const candidate = await prisma.feed.findFirst({
+    where: {
+      isActive: true,
+      nextPollAt: { lte: now },
+    },
+    orderBy: { nextPollAt: 'asc' },
+  });
+
+  if (!candidate) {
+    return false;
+  }
+
+  // Pushing nextPollAt forward claims the feed for this instance
+  const claimed = await prisma.feed.updateMany({
+    where: {
+      id: candidate.id,
+      nextPollAt: candidate.nextPollAt,
+    },
+    data: {
+      nextPollAt: new Date(now.getTime() + candidate.pollInterval * 1000),
+    },
+  });
+
+  if (claimed.count > 0) {
+    await pollFeed(candidate);
+  }
+  return true;
+}
+
+/**
+ * Fetch a feed (conditionally, with ETag/Last-Modified) and save its new entries.
+ * On the first successful fetch existing entries are only recorded as seen,
+ * so subscribing does not flood the library with the feed's back catalogue.
+ */
+export async function pollFeed(feed: Feed): Promise<PollResult> {
+  const nextPollAt = new Date(Date.now() + feed.pollInterval * 1000);
+
+  try {
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), FETCH_TIMEOUT);
+
+    const headers: Record<string, string> = {
+      'User-Agent': USER_AGENT,
+      'Accept': 'application/rss+xml, application/atom+xml, application/feed+json, application/json, application/xml;q=0.9, text/xml;q=0.8, */*;q=0.5',
+    };
+    if (feed.etag) {
+      headers['If-None-Match'] = feed.etag;
+    }
+    if (feed.lastModified) {
+      headers['If-Modified-Since'] = feed.lastModified;
+    }
+
+    let response: Response;
+    try {
+      response = await globalThis.fetch(feed.url, {
+        headers,
+        signal: controller.signal,
+        redirect: 'follow',
+      });
+    } finally {
+      clearTimeout(timeoutId);
+    }
+
+    if (response.status === 304) {
+      await prisma.feed.update({
+        where: { id: feed.id },
+        data: { lastFetchedAt: new Date(), lastError: null, nextPollAt },
+      });
+      return { status: 'not-modified', saved: 0, seen: 0 };
+    }
+
+    if (!response.ok) {
+      throw new Error(`Failed to fetch: ${response.status} ${response.statusText}`);
+    }
+
+    const body = await response.text();
+    if (body.length > MAX_RESPONSE_SIZE) {
+      throw new Error(`Response too large: ${body.length} bytes`);
+    }
+
+    const parsed = parseFeed(body, feed.url);
+    const isFirstFetch = feed.lastFetchedAt === null;
+
+    // Feeds list newest first; keep the ones not seen before, oldest first
+    const known = await prisma.feedEntry.findMany({
+      where: {
+        feedId: feed.id,
+        guid: { in: parsed.items.map(item => item.guid) },
+      },
+      select: { guid: true },
+    });
+    const knownGuids = new Set(known.map(entry => entry.guid));
+    const newItems = parsed.items
+      .filter((item, index, items) => !knownGuids.has(item.guid) && items.findIndex(other => other.guid === item.guid) === index)
+      .reverse();
+
+    let saved = 0;
+    let seen = 0;
+    // Validators are only kept once every entry is in, or the next poll would get a 304 for the rest
+    const truncated = !isFirstFetch && newItems.length > MAX_ITEMS_PER_POLL;
+
+    if (isFirstFetch) {
+      const created = await prisma.feedEntry.createMany({
+        data: newItems.map(item => ({ feedId: feed.id, guid: item.guid, url: item.url })),
+        skipDuplicates: true,
+      });
+      seen = created.count;
+    } else {
+      const tagIds = await resolveTagIds(feed.userId, feed.tags);
+      const collectionIds = feed.collectionId ? [feed.collectionId] : [];
+
+      for (const item of newItems.slice(0, MAX_ITEMS_PER_POLL)) {
+        let articleId: string | undefined;
+        try {
+          const result = await saveUrlArticle(feed.userId, {
+            url: item.url,
+            title: item.title,
+            attributes: {
+              feedId: feed.id,
+              ...(item.author ? { author: item.author } : {}),
+              ...(item.publishedAt ? { publishedDate: item.publishedAt.toISOString() } : {}),
+            },
+            tagIds,
+            collectionIds,
+          });
+          articleId = result.article.id;
+          if (result.created) {
+            saved++;
+          }
+        } catch (error) {
+          // Recorded as seen anyway, so a broken entry is not retried forever
+          console.error(`Error saving feed entry ${item.url}:`, error);
+        }
+
+        // A manual poll running alongside the scheduled one may have recorded it already
+        const created = await prisma.feedEntry.createMany({
+          data: [{ feedId: feed.id, guid: item.guid, url: item.url, articleId }],
+          skipDuplicates: true,
+        });
+        seen += created.count;
+      }
+    }
+
+    await prisma.feed.update({
+      where: { id: feed.id },
+      data: {
+        title: feed.title ?? parsed.title,
+        siteUrl: feed.siteUrl ?? parsed.siteUrl,
+        description: feed.description ?? parsed.description,
+        etag: truncated ? null : response.headers.get('etag'),
+        lastModified: truncated ? null : response.headers.get('last-modified'),
+        lastFetchedAt: new Date(),
+        lastError: null,
+        nextPollAt,
+      },
+    });
+
+    return { status: 'updated', saved, seen };
+  } catch (error: any) {
+    const message = error?.name === 'AbortError'
+      ? `Request timeout after ${FETCH_TIMEOUT}ms`
+      : error instanceof Error ? error.message : String(error);
+    console.warn(`Error polling feed ${feed.url}:`, message);
+
+    await prisma.feed.update({
+      where: { id: feed.id },
+      data: { lastError: message, nextPollAt },
+    });
+
+    return { status: 'failed', saved: 0, seen: 0, error: message };
+  }
+}
@@ -0,0 +1,57 @@
+import crypto from 'crypto';
+import { htmlToPlainText } from './contentExtractor';
+
+const SHINGLE_SIZE = 3; // Words per shingle
+const MIN_WORDS = 30; // Shorter texts give fingerprints too noisy to compare
+
+/**
+ * 64-bit SimHash of the text of stored content (HTML or plain text), as
+ * 16 hex characters. Texts that differ only slightly (boilerplate, a few
+ * edited sentences) get fingerprints a small Hamming distance apart.
+ * Returns null when there is too little text to fingerprint.
+ */
+export function computeFingerprint(content: string | null | undefined): string | null {
+  if (!content) {
+    return null;
+  }
+
+  const words = htmlToPlainText(content).toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+  if (words.length < MIN_WORDS) {
+    return null;
+  }
+
+  const weights = new Array<number>(64).fill(0);
+  for (let i = 0; i + SHINGLE_SIZE <= words.length; i++) {
+    const digest = crypto.createHash('md5').update(words.slice(i, i + SHINGLE_SIZE).join(' ')).digest();
+    for (let bit = 0; bit < 64; bit++) {
+      const set = (digest[bit >> 3] >> (bit & 7)) & 1;
+      weights[bit] += set ? 1 : -1;
+    }
+  }
+
+  const bytes = Buffer.alloc(8);
+  for (let bit = 0; bit < 64; bit++) {
+    if (weights[bit] > 0) {
+      bytes[bit >> 3] |= 1 << (bit & 7);
+    }
+  }
+  return bytes.toString('hex');
+}
+
+/**
+ * Number of differing bits between two fingerprints (0-64)
+ */
+export function hammingDistance(a: string, b: string): number {
+  const x = Buffer.from(a, 'hex');
+  const y = Buffer.from(b, 'hex');
+
+  let distance = 0;
+  for (let i = 0; i < 8; i++) {
+    let diff = x[i] ^ y[i];
+    while (diff) {
+      diff &= diff - 1;
+      distance++;
+    }
+  }
+  return distance;
+}
@@ -0,0 +1,344 @@
+import { Prisma, type Article } from '@prisma/client';
+import { prisma } from '../config/prisma';
+import { env } from '../config/env';
+import { uploadFile, deleteFile, generateFileHash } from './storage';
+
+export interface ArchivableFields {
+  content?: string | null;
+  coverImage?: string | null;
+  favicon?: string | null;
+}
+
+export interface ImageArchiveStats {
+  archived: number; // Images now served from our storage
+  failed: number; // Could not be downloaded or were not images
+  skipped: number; // Left remote because of the per-article limit or the user's quota
+}
+
+const FETCH_TIMEOUT = 15000;
+
+const EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/gif': 'gif',
+  'image/webp': 'webp',
+  'image/avif': 'avif',
+  'image/x-icon': 'ico',
+  'image/vnd.microsoft.icon': 'ico',
+};
+
+const IMG_TAG_REGEX = /<img\b[^>]*>/gi;
+const SRC_ATTR_REGEX = /\ssrc=["']([^"']+)["']/i;
+// Responsive variants would keep loading the remote copies
+const SRCSET_ATTR_REGEX = /\s(?:data-)?srcset=["'][^"']*["']/gi;
+
+/**
+ * Whether images should be archived for this user's articles
+ */
+export async function shouldArchiveImages(userId: string): Promise<boolean> {
+  if (!env.imageArchiveEnabled) {
+    return false;
+  }
+
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { archiveImages: true },
+  });
+  return user?.archiveImages ?? false;
+}
+
+/**
+ * Download the images referenced by an article's content, cover and favicon
+ * into storage and return the fields rewritten to point at our copies.
+ * Images are stored once per user and content hash; anything that cannot
+ * be archived keeps its remote URL.
+ */
+export async function archiveArticleImages<T extends ArchivableFields>(
+  article: Pick<Article, 'id' | 'userId' | 'url'>,
+  fields: T
+): Promise<{ fields: T; stats: ImageArchiveStats }> {
+  const stats: ImageArchiveStats = { archived: 0, failed: 0, skipped: 0 };
+  const baseUrl = article.url ?? undefined;
+
+  const sources = collectImageUrls(fields, baseUrl);
+  const accepted = sources.slice(0, env.imageArchiveMaxPerArticle);
+  stats.skipped += sources.length - accepted.length;
+
+  // URLs archived by an earlier run are not downloaded again
+  const links = await prisma.articleImage.findMany({
+    where: { articleId: article.id, sourceUrl: { in: accepted } },
+    include: { image: { select: { fileUrl: true } } },
+  });
+  const stored = new Map(links.map(link => [link.sourceUrl, link.image.fileUrl]));
+
+  const usage = await prisma.storedImage.aggregate({
+    where: { userId: article.userId },
+    _sum: { size: true },
+  });
+  let used = usage._sum.size ?? 0;
+
+  for (const sourceUrl of accepted) {
+    if (stored.has(sourceUrl)) {
+      stats.archived++;
+      continue;
+    }
+
+    try {
+      const download = await fetchImage(sourceUrl, baseUrl);
+      const hash = generateFileHash(download.buffer);
+
+      let image = await prisma.storedImage.findUnique({
+        where: { userId_hash: { userId: article.userId, hash } },
+      });
+
+      if (!image) {
+        if (used + download.buffer.length > env.imageArchiveUserQuota) {
+          stats.skipped++;
+          continue;
+        }
+        image = await storeImage(article.userId, hash, download);
+        used += image.size;
+      }
+
+      await prisma.articleImage.upsert({
+        where: { articleId_sourceUrl: { articleId: article.id, sourceUrl } },
+        create: { articleId: article.id, imageId: image.id, sourceUrl },
+        update: { imageId: image.id },
+      });
+
+      stored.set(sourceUrl, image.fileUrl);
+      stats.archived++;
+    } catch (error) {
+      console.warn(`Could not archive image ${sourceUrl}:`, error instanceof Error ? error.message : error);
+      stats.failed++;
+    }
+  }
+
+  const resolve = (url: string | null | undefined) => {
+    const absolute = url ? toAbsoluteUrl(url, baseUrl) : undefined;
+    return absolute ? stored.get(absolute) : undefined;
+  };
+
+  const rewritten: T = { ...fields };
+  if (fields.content) {
+    rewritten.content = rewriteContentImages(fields.content, resolve);
+  }
+  if (fields.coverImage) {
+    rewritten.coverImage = resolve(fields.coverImage) ?? fields.coverImage;
+  }
+  if (fields.favicon) {
+    rewritten.favicon = resolve(fields.favicon) ?? fields.favicon;
+  }
+
+  return { fields: rewritten, stats };
+}
+
+/**
+ * Delete the stored images only this article uses. Called when the
+ * article is purged, before its row (and the links) are gone.
+ */
+export async function releaseArticleImages(articleId: string): Promise<void> {
+  const images = await prisma.storedImage.findMany({
+    where: {
+      articleImages: {
+        some: { articleId },
+        every: { articleId },
+      },
+    },
+    select: { id: true, fileUrl: true },
+  });
+
+  for (const image of images) {
+    await deleteFile(image.fileUrl);
+  }
+
+  await prisma.storedImage.deleteMany({
+    where: { id: { in: images.map(image => image.id) } },
+  });
+}
+
+/**
+ * Bytes of archived images stored for the user, against their quota
+ */
+export async function getImageStorageUsage(userId: string) {
+  const usage = await prisma.storedImage.aggregate({
+    where: { userId },
+    _sum: { size: true },
+    _count: true,
+  });
+
+  return {
+    images: usage._count,
+    used: usage._sum.size ?? 0,
+    quota: env.imageArchiveUserQuota,
+  };
+}
+
+async function storeImage(
+  userId: string,
+  hash: string,
+  download: { buffer: Buffer; mimeType: string }
+) {
+  const extension = EXTENSIONS[download.mimeType] ?? 'img';
+  const upload = await uploadFile(download.buffer, `image.${extension}`, download.mimeType, userId);
+
+  try {
+    return await prisma.storedImage.create({
+      data: {
+        userId,
+        hash,
+        fileUrl: upload.fileUrl,
+        mimeType: download.mimeType,
+        size: upload.fileSize,
+      },
+    });
+  } catch (error) {
+    // Another job stored the same image meanwhile; keep theirs
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      await deleteFile(upload.fileUrl);
+      return prisma.storedImage.findUniqueOrThrow({
+        where: { userId_hash: { userId, hash } },
+      });
+    }
+    throw error;
+  }
+}
+
+/**
+ * Download an image, enforcing the per-image size limit
+ */
+export async function fetchImage(url: string, referer?: string): Promise<{ buffer: Buffer; mimeType: string }> {
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), FETCH_TIMEOUT);
+
+  try {
+    const response = await globalThis.fetch(url, {
+      headers: {
+        'Accept': 'image/avif,image/webp,image/png,image/jpeg,image/gif,image/*;q=0.8',
+        // Sites that block hotlinking usually accept their own pages as referer
+        ...(referer ? { 'Referer': referer } : {}),
+      },
+      signal: controller.signal,
+      redirect: 'follow',
+    });
+
+    if (!response.ok) {
+      throw new Error(`Failed to fetch: ${response.status} ${response.statusText}`);
+    }
+
+    const mimeType = (response.headers.get('content-type') || '').split(';')[0].trim().toLowerCase();
+    // SVG can carry scripts, so it stays remote
+    if (!mimeType.startsWith('image/') || mimeType === 'image/svg+xml') {
+      throw new Error(`Not an image: ${mimeType || 'unknown type'}`);
+    }
+
+    const contentLength = response.headers.get('content-length');
+    if (contentLength && parseInt(contentLength) > env.imageArchiveMaxImageSize) {
+      throw new Error(`Image too large: ${contentLength} bytes`);
+    }
+
+    const buffer = await readBody(response, env.imageArchiveMaxImageSize, controller);
+
+    return { buffer, mimeType };
+  } catch (error: any) {
+    if (error.name === 'AbortError') {
+      throw new Error(`Request timeout after ${FETCH_TIMEOUT}ms`);
+    }
+    throw error;
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
+
+/**
+ * Read a response body in chunks, aborting the download as soon as it
+ * passes maxBytes (Content-Length can be missing or wrong)
+ */
+async function readBody(response: Response, maxBytes: number, controller: AbortController): Promise<Buffer> {
+  if (!response.body) {
+    return Buffer.alloc(0);
+  }
+
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) {
+      break;
+    }
+
+    size += value.byteLength;
+    if (size > maxBytes) {
+      controller.abort();
+      throw new Error(`Image too large: over ${maxBytes} bytes`);
+    }
+    chunks.push(value);
+  }
+
+  return Buffer.concat(chunks);
+}
+
+/**
+ * Absolute remote image URLs in the order they appear, without duplicates
+ */
+function collectImageUrls(fields: ArchivableFields, baseUrl?: string): string[] {
+  const urls: string[] = [];
+
+  if (fields.content) {
+    for (const tag of fields.content.match(IMG_TAG_REGEX) ?? []) {
+      const src = tag.match(SRC_ATTR_REGEX)?.[1];
+      if (src) {
+        urls.push(src);
+      }
+    }
+  }
+  if (fields.coverImage) {
+    urls.push(fields.coverImage);
+  }
+  if (fields.favicon) {
+    urls.push(fields.favicon);
+  }
+
+  const absolute = urls
+    .map(url => toAbsoluteUrl(url, baseUrl))
+    .filter((url): url is string => !!url && !isStoredUrl(url));
+
+  return [...new Set(absolute)];
+}
+
+function rewriteContentImages(html: string, resolve: (url: string) => string | undefined): string {
+  return html.replace(IMG_TAG_REGEX, tag => {
+    const src = tag.match(SRC_ATTR_REGEX)?.[1];
+    const local = src ? resolve(src) : undefined;
+    if (!local) {
+      return tag;
+    }
+
+    return tag.replace(SRCSET_ATTR_REGEX, '').replace(SRC_ATTR_REGEX, ` src="${local}"`);
+  });
+}
+
+function toAbsoluteUrl(url: string, baseUrl?: string): string | undefined {
+  if (url.startsWith('data:')) {
+    return undefined;
+  }
+
+  try {
+    const absolute = new URL(url.replace(/&amp;/g, '&'), baseUrl);
+    return absolute.protocol === 'http:' || absolute.protocol === 'https:' ? absolute.toString() : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Whether the URL already points at our own storage
+ */
+function isStoredUrl(url: string): boolean {
+  if (env.cloudflareR2PublicUrl && url.startsWith(env.cloudflareR2PublicUrl)) {
+    return true;
+  }
+  return url.includes('.r2.cloudflarestorage.com/');
+}
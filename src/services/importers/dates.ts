@@ -0,0 +1,24 @@
+/**
+ * Convert a Unix timestamp in seconds (as found in export files) to a Date
+ */
+export function parseUnixTimestamp(value: string | null | undefined): Date | undefined {
+  if (!value) {
+    return undefined;
+  }
+  const seconds = parseInt(value, 10);
+  if (isNaN(seconds) || seconds <= 0) {
+    return undefined;
+  }
+  return new Date(seconds * 1000);
+}
+
+/**
+ * Parse a date string from an export file, ignoring unparseable values
+ */
+export function parseDate(value: unknown): Date | undefined {
+  if (typeof value !== 'string' && typeof value !== 'number') {
+    return undefined;
+  }
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? undefined : date;
+}
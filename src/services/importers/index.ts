@@ -0,0 +1,130 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '../../config/prisma';
+import { saveUrlArticle, resolveTagIds, resolveCollectionIds } from '../articleIngestion';
+import type { Importer, ImportEntry, ImportReport } from './types';
+import { pocketImporter } from './pocket';
+import { instapaperImporter } from './instapaper';
+import { netscapeImporter } from './netscape';
+import { raindropImporter } from './raindrop';
+import { omnivoreImporter } from './omnivore';
+import { wallabagImporter } from './wallabag';
+
+export type { Importer, ImportEntry, ImportedHighlight, ImportReport, ImportRowResult } from './types';
+
+// Registered import sources, keyed by the :source route parameter
+export const importers: Record<string, Importer> = {
+  [pocketImporter.source]: pocketImporter,
+  [instapaperImporter.source]: instapaperImporter,
+  [netscapeImporter.source]: netscapeImporter,
+  [raindropImporter.source]: raindropImporter,
+  [omnivoreImporter.source]: omnivoreImporter,
+  [wallabagImporter.source]: wallabagImporter,
+};
+
+/**
+ * Save every entry for the user, one row at a time, reporting what happened
+ * to each. Entries the user already has (same URL hash) are skipped.
+ */
+export async function runImport(userId: string, source: string, entries: ImportEntry[]): Promise<ImportReport> {
+  const report: ImportReport = {
+    source,
+    created: 0,
+    skipped: 0,
+    failed: 0,
+    rows: [],
+  };
+  const tagCache = new Map<string, string>();
+  const collectionCache = new Map<string, string>();
+
+  for (const entry of entries) {
+    if (!isValidUrl(entry.url)) {
+      report.failed++;
+      report.rows.push({ row: entry.row, url: entry.url || undefined, status: 'failed', error: 'URL inválida' });
+      continue;
+    }
+
+    try {
+      const tagIds = await resolveTagIds(userId, entry.tags ?? [], tagCache);
+      const collectionIds = await resolveCollectionIds(userId, entry.collections ?? [], collectionCache);
+      const result = await saveUrlArticle(userId, {
+        url: entry.url,
+        title: entry.title,
+        status: entry.status,
+        isFavorited: entry.isFavorited,
+        createdAt: entry.createdAt,
+        tagIds,
+        collectionIds,
+      });
+
+      if (result.created) {
+        const highlights = await saveAnnotations(userId, result.article.id, entry);
+        report.created++;
+        report.rows.push({ row: entry.row, url: entry.url, status: 'created', articleId: result.article.id, highlights });
+      } else {
+        report.skipped++;
+        report.rows.push({ row: entry.row, url: entry.url, status: 'skipped', articleId: result.article.id });
+      }
+    } catch (error) {
+      console.error(`Error importing row ${entry.row}:`, error);
+      report.failed++;
+      report.rows.push({
+        row: entry.row,
+        url: entry.url,
+        status: 'failed',
+        error: error instanceof Prisma.PrismaClientKnownRequestError ? error.code : 'Erro ao salvar artigo',
+      });
+    }
+  }
+
+  return report;
+}
+
+/**
+ * Attach the entry's highlights (with their annotations) and article notes.
+ * Returns the number of highlights created.
+ */
+async function saveAnnotations(userId: string, articleId: string, entry: ImportEntry): Promise<number> {
+  const highlights = entry.highlights ?? [];
+  const notes = entry.notes ?? [];
+
+  if (highlights.length === 0 && notes.length === 0) {
+    return 0;
+  }
+
+  await prisma.$transaction([
+    ...highlights.map(highlight =>
+      prisma.highlight.create({
+        data: {
+          text: highlight.text,
+          color: highlight.color,
+          createdAt: highlight.createdAt,
+          articleId,
+          userId,
+          ...(highlight.note
+            ? { notes: { create: [{ content: highlight.note, articleId, userId }] } }
+            : {}),
+        },
+      })
+    ),
+    ...notes.map(content =>
+      prisma.note.create({
+        data: {
+          content,
+          articleId,
+          userId,
+        },
+      })
+    ),
+  ]);
+
+  return highlights.length;
+}
+
+function isValidUrl(value: string): boolean {
+  try {
+    const url = new URL(value);
+    return url.protocol === 'http:' || url.protocol === 'https:';
+  } catch {
+    return false;
+  }
+}
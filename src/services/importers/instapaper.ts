@@ -0,0 +1,60 @@
+import type { Importer, ImportEntry } from './types';
+import { parseCsvRecords } from './csv';
+import { parseUnixTimestamp } from './dates';
+
+// Built-in Instapaper folders; any other folder name is user-created
+const UNREAD_FOLDER = 'unread';
+const ARCHIVE_FOLDER = 'archive';
+const STARRED_FOLDER = 'starred';
+
+/**
+ * Instapaper CSV export: URL,Title,Selection,Folder,Timestamp[,Tags]
+ * User-created folders become tags, since that is how they were used.
+ */
+export const instapaperImporter: Importer = {
+  source: 'instapaper',
+  parse(buffer: Buffer): ImportEntry[] {
+    return parseCsvRecords(buffer.toString('utf-8')).map((record, index) => {
+      const folder = record.folder || '';
+      const folderKey = folder.toLowerCase();
+      const tags = parseTags(record.tags);
+
+      if (folder && ![UNREAD_FOLDER, ARCHIVE_FOLDER, STARRED_FOLDER].includes(folderKey)) {
+        tags.push(folder);
+      }
+
+      return {
+        row: index + 1,
+        url: record.url || '',
+        title: record.title || undefined,
+        status: folderKey === ARCHIVE_FOLDER ? 'ARCHIVED' : 'UNREAD',
+        isFavorited: folderKey === STARRED_FOLDER,
+        tags,
+        createdAt: parseUnixTimestamp(record.timestamp),
+      };
+    });
+  },
+};
+
+/**
+ * Newer exports carry tags as a JSON array; older ones as a comma-separated list
+ */
+function parseTags(value: string | undefined): string[] {
+  if (!value) {
+    return [];
+  }
+
+  try {
+    const parsed = JSON.parse(value);
+    if (Array.isArray(parsed)) {
+      return parsed.map(tag => String(tag).trim()).filter(tag => tag.length > 0);
+    }
+  } catch {
+    // Not JSON, fall through
+  }
+
+  return value
+    .split(',')
+    .map(tag => tag.trim())
+    .filter(tag => tag.length > 0);
+}
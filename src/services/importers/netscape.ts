@@ -0,0 +1,55 @@
+import { JSDOM } from 'jsdom';
+import type { Importer, ImportEntry } from './types';
+import { parseUnixTimestamp } from './dates';
+
+// Folder names joined this way when bookmarks are nested several levels deep
+const FOLDER_PATH_SEPARATOR = ' / ';
+
+/**
+ * Netscape bookmark file (what every browser imports/exports).
+ * Folders become collections and TAGS= attributes become tags.
+ */
+export const netscapeImporter: Importer = {
+  source: 'netscape',
+  parse(buffer: Buffer): ImportEntry[] {
+    const dom = new JSDOM(buffer.toString('utf-8'), { contentType: 'text/html' });
+    const entries: ImportEntry[] = [];
+    walk(dom.window.document.body, [], entries);
+    return entries;
+  },
+};
+
+/**
+ * Folders are an <H3> followed by a <DL> holding their content; the HTML
+ * parser nests both inside the folder's <DT>
+ */
+function walk(node: Element, path: string[], entries: ImportEntry[]): void {
+  let pendingFolder: string | null = null;
+
+  for (const child of Array.from(node.children)) {
+    const tagName = child.tagName.toLowerCase();
+
+    if (tagName === 'h3') {
+      // The browser's toolbar/root folders are containers, not collections
+      const isRoot = child.hasAttribute('personal_toolbar_folder') || child.hasAttribute('unfiled_bookmarks_folder');
+      pendingFolder = isRoot ? '' : (child.textContent || '').trim();
+    } else if (tagName === 'dl' && pendingFolder !== null) {
+      walk(child, pendingFolder ? [...path, pendingFolder] : path, entries);
+      pendingFolder = null;
+    } else if (tagName === 'a') {
+      entries.push({
+        row: entries.length + 1,
+        url: (child.getAttribute('href') || '').trim(),
+        title: child.textContent?.trim() || undefined,
+        tags: (child.getAttribute('tags') || '')
+          .split(',')
+          .map(tag => tag.trim())
+          .filter(tag => tag.length > 0),
+        collections: path.length > 0 ? [path.join(FOLDER_PATH_SEPARATOR)] : [],
+        createdAt: parseUnixTimestamp(child.getAttribute('add_date')),
+      });
+    } else {
+      walk(child, path, entries);
+    }
+  }
+}
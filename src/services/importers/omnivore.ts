@@ -0,0 +1,122 @@
+import JSZip from 'jszip';
+import type { Importer, ImportEntry, ImportedHighlight } from './types';
+import { parseDate } from './dates';
+
+const METADATA_FILE = /(^|\/)metadata_[^/]*\.json$/;
+const HIGHLIGHTS_FILE = /(^|\/)highlights\/([^/]+)\.md$/;
+
+/**
+ * Omnivore exports: the export zip (items in metadata_*.json files,
+ * highlights and their annotations in highlights/<slug>.md) or a single
+ * JSON file, as in API dumps, with highlights inlined
+ */
+export const omnivoreImporter: Importer = {
+  source: 'omnivore',
+  async parse(buffer: Buffer): Promise<ImportEntry[]> {
+    if (!isZip(buffer)) {
+      return toEntries(readItems(buffer.toString('utf-8')), new Map());
+    }
+
+    const zip = await JSZip.loadAsync(buffer);
+    const files = Object.values(zip.files).filter(file => !file.dir);
+
+    // The export is split in files of a few items each (metadata_0_to_20.json, ...)
+    const metadataFiles = files
+      .filter(file => METADATA_FILE.test(file.name))
+      .sort((a, b) => a.name.localeCompare(b.name, undefined, { numeric: true }));
+    if (metadataFiles.length === 0) {
+      throw new Error('No metadata_*.json in the Omnivore export');
+    }
+
+    const items: any[] = [];
+    for (const file of metadataFiles) {
+      items.push(...readItems(await file.async('string')));
+    }
+
+    const annotationsBySlug = new Map<string, Annotations>();
+    for (const file of files) {
+      const slug = HIGHLIGHTS_FILE.exec(file.name)?.[2];
+      if (slug) {
+        annotationsBySlug.set(slug, parseHighlightsMarkdown(await file.async('string')));
+      }
+    }
+
+    return toEntries(items, annotationsBySlug);
+  },
+};
+
+interface Annotations {
+  highlights: ImportedHighlight[];
+  notes: string[];
+}
+
+function readItems(json: string): any[] {
+  const data = JSON.parse(json);
+  return Array.isArray(data) ? data : data?.items ?? [];
+}
+
+function toEntries(items: any[], annotationsBySlug: Map<string, Annotations>): ImportEntry[] {
+  return items.map((item, index) => {
+    const annotations = annotationsBySlug.get(String(item.slug));
+    return {
+      row: index + 1,
+      url: String(item.url || item.originalArticleUrl || ''),
+      title: item.title || undefined,
+      status: String(item.state || '').toLowerCase() === 'archived' ? 'ARCHIVED' : 'UNREAD',
+      // Labels are plain names in file exports and { name } objects in API dumps
+      tags: (Array.isArray(item.labels) ? item.labels : [])
+        .map((label: any) => (typeof label === 'string' ? label : label?.name))
+        .filter((name: unknown): name is string => typeof name === 'string'),
+      createdAt: parseDate(item.savedAt),
+      highlights: Array.isArray(item.highlights)
+        ? item.highlights
+            .filter((highlight: any) => typeof highlight?.quote === 'string' && highlight.quote.trim())
+            .map((highlight: any) => ({
+              text: highlight.quote,
+              note: highlight.annotation || undefined,
+              color: highlight.color || undefined,
+              createdAt: parseDate(highlight.createdAt),
+            }))
+        : annotations?.highlights ?? [],
+      notes: typeof item.note === 'string' && item.note.trim() ? [item.note] : annotations?.notes ?? [],
+    };
+  });
+}
+
+/**
+ * Highlights file of the export: each highlight is a blockquote, followed
+ * by its labels (a line of #tags) and its annotation, if any. Text before
+ * the first quote is the article's note.
+ */
+export function parseHighlightsMarkdown(markdown: string): Annotations {
+  const highlights: Array<{ quote: string[]; note: string[] }> = [];
+  const notes: string[] = [];
+
+  for (const block of markdown.replace(/\r\n/g, '\n').split(/\n\s*\n/)) {
+    const lines = block.split('\n');
+
+    if (lines[0].startsWith('>')) {
+      highlights.push({
+        // Each quote ends with a link back to Omnivore: [⤴️](https://omnivore.app/...)
+        quote: lines.map(line => line.replace(/^>\s?/, '').replace(/\s*\[[^\]]*\]\(https:\/\/omnivore\.app[^)]*\)\s*$/, '')),
+        note: [],
+      });
+    } else if (block.trim() && !/^(#[^\s#]+\s*)+$/.test(block.trim())) {
+      (highlights.length > 0 ? highlights[highlights.length - 1].note : notes).push(block.trim());
+    }
+  }
+
+  return {
+    highlights: highlights
+      .map(highlight => ({
+        text: highlight.quote.join('\n').trim(),
+        note: highlight.note.join('\n\n') || undefined,
+      }))
+      .filter(highlight => highlight.text),
+    notes: notes.length > 0 ? [notes.join('\n\n')] : [],
+  };
+}
+
+function isZip(buffer: Buffer): boolean {
+  return buffer.length > 4 && buffer.readUInt32LE(0) === 0x04034b50; // "PK\x03\x04"
+}
@@ -0,0 +1,67 @@
+import { JSDOM } from 'jsdom';
+import type { Importer, ImportEntry } from './types';
+import { parseCsvRecords } from './csv';
+import { parseUnixTimestamp } from './dates';
+
+/**
+ * Pocket exports: the classic ril_export.html (one <ul> per "Unread" /
+ * "Read Archive" section) and the newer CSV (title,url,time_added,tags,status)
+ */
+export const pocketImporter: Importer = {
+  source: 'pocket',
+  parse(buffer: Buffer): ImportEntry[] {
+    const text = buffer.toString('utf-8');
+    return text.trimStart().startsWith('<') ? parseHtml(text) : parseCsv(text);
+  },
+};
+
+function parseHtml(html: string): ImportEntry[] {
+  const dom = new JSDOM(html, { contentType: 'text/html' });
+  const document = dom.window.document;
+  const entries: ImportEntry[] = [];
+  let archived = false;
+  let row = 0;
+
+  // Headings and links come back in document order, so each link belongs
+  // to the last section heading seen
+  document.querySelectorAll('h1, a').forEach((element) => {
+    if (element.tagName.toLowerCase() === 'h1') {
+      archived = /archive/i.test(element.textContent || '');
+      return;
+    }
+
+    row++;
+    const tags = (element.getAttribute('tags') || '')
+      .split(',')
+      .map(tag => tag.trim())
+      .filter(tag => tag.length > 0);
+
+    entries.push({
+      row,
+      url: (element.getAttribute('href') || '').trim(),
+      title: element.textContent?.trim() || undefined,
+      status: archived ? 'ARCHIVED' : 'UNREAD',
+      // Only present in exports produced through the Pocket API
+      isFavorited: element.getAttribute('favorite') === '1',
+      tags,
+      createdAt: parseUnixTimestamp(element.getAttribute('time_added')),
+    });
+  });
+
+  return entries;
+}
+
+function parseCsv(text: string): ImportEntry[] {
+  return parseCsvRecords(text).map((record, index) => ({
+    row: index + 1,
+    url: record.url || '',
+    title: record.title || undefined,
+    status: record.status === 'archive' ? 'ARCHIVED' : 'UNREAD',
+    isFavorited: record.favorite === '1',
+    tags: (record.tags || '')
+      .split('|')
+      .map(tag => tag.trim())
+      .filter(tag => tag.length > 0),
+    createdAt: parseUnixTimestamp(record.time_added),
+  }));
+}
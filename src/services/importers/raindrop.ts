@@ -0,0 +1,36 @@
+import type { Importer, ImportEntry } from './types';
+import { parseDate } from './dates';
+
+/**
+ * Raindrop.io JSON export ({ items: [...] } as returned by its API, or a bare array)
+ */
+export const raindropImporter: Importer = {
+  source: 'raindrop',
+  parse(buffer: Buffer): ImportEntry[] {
+    const data = JSON.parse(buffer.toString('utf-8'));
+    const items: any[] = Array.isArray(data) ? data : data?.items ?? [];
+
+    return items.map((item, index) => {
+      const collection = item.collection?.title || item.folder;
+
+      return {
+        row: index + 1,
+        url: String(item.link || ''),
+        title: item.title || undefined,
+        isFavorited: item.important === true,
+        tags: Array.isArray(item.tags) ? item.tags.map(String) : [],
+        collections: typeof collection === 'string' && collection ? [collection] : [],
+        createdAt: parseDate(item.created),
+        highlights: (Array.isArray(item.highlights) ? item.highlights : [])
+          .filter((highlight: any) => typeof highlight?.text === 'string' && highlight.text.trim())
+          .map((highlight: any) => ({
+            text: highlight.text,
+            note: highlight.note || undefined,
+            color: highlight.color || undefined,
+            createdAt: parseDate(highlight.created),
+          })),
+        notes: typeof item.note === 'string' && item.note.trim() ? [item.note] : [],
+      };
+    });
+  },
+};
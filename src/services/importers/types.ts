@@ -0,0 +1,45 @@
+import type { ArticleStatus } from '@prisma/client';
+
+// A highlight (and optional annotation) made in the source service
+export interface ImportedHighlight {
+  text: string;
+  note?: string;
+  color?: string;
+  createdAt?: Date;
+}
+
+// One saved item read from another service's export file
+export interface ImportEntry {
+  row: number; // Position in the source file, reported back to the client
+  url: string;
+  title?: string;
+  status?: ArticleStatus;
+  isFavorited?: boolean;
+  tags?: string[];
+  collections?: string[]; // Collection names, created when missing
+  createdAt?: Date;
+  highlights?: ImportedHighlight[];
+  notes?: string[]; // Article-level notes
+}
+
+export interface Importer {
+  source: string;
+  parse(buffer: Buffer): ImportEntry[] | Promise<ImportEntry[]>; // Async for archives
+}
+
+export interface ImportRowResult {
+  row: number;
+  url?: string;
+  status: 'created' | 'skipped' | 'failed';
+  articleId?: string;
+  highlights?: number; // Highlights created for the article
+  error?: string;
+}
+
+export interface ImportReport {
+  source: string;
+  created: number;
+  skipped: number;
+  failed: number;
+  rows: ImportRowResult[];
+}
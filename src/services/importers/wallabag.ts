@@ -0,0 +1,33 @@
+import type { Importer, ImportEntry } from './types';
+import { parseDate } from './dates';
+
+/**
+ * Wallabag JSON export; annotations carry the highlighted quote and the note
+ */
+export const wallabagImporter: Importer = {
+  source: 'wallabag',
+  parse(buffer: Buffer): ImportEntry[] {
+    const data = JSON.parse(buffer.toString('utf-8'));
+    const items: any[] = Array.isArray(data) ? data : data?._embedded?.items ?? [];
+
+    return items.map((item, index) => ({
+      row: index + 1,
+      url: String(item.url || ''),
+      title: item.title || undefined,
+      status: Number(item.is_archived) === 1 ? 'ARCHIVED' : 'UNREAD',
+      isFavorited: Number(item.is_starred) === 1,
+      // Tags are plain names in exports and { label } objects in API responses
+      tags: (Array.isArray(item.tags) ? item.tags : [])
+        .map((tag: any) => (typeof tag === 'string' ? tag : tag?.label))
+        .filter((name: unknown): name is string => typeof name === 'string'),
+      createdAt: parseDate(item.created_at),
+      highlights: (Array.isArray(item.annotations) ? item.annotations : [])
+        .filter((annotation: any) => typeof annotation?.quote === 'string' && annotation.quote.trim())
+        .map((annotation: any) => ({
+          text: annotation.quote,
+          note: annotation.text || undefined,
+          createdAt: parseDate(annotation.created_at),
+        })),
+    }));
+  },
+};
@@ -0,0 +1,273 @@
+import { Prisma, type Article, type ExtractionJob } from '@prisma/client';
+import { prisma } from '../config/prisma';
+import { env } from '../config/env';
+import { extractContent, type ExtractedMetadata } from './contentExtractor';
+import { extractContentFromFile } from './fileProcessor';
+import { downloadFile } from './storage';
+import { replaceArticleContent } from './contentVersions';
+import { organizeNewArticle, resolveCanonicalUrlHash } from './articleIngestion';
+import { archiveArticleImages, shouldArchiveImages } from './imageArchiver';
+import { captureSnapshot } from './snapshot';
+
+// Metadata sent by the client that must win over what the extractor finds
+export type ExtractionOverrides = {
+  title?: string;
+  description?: string;
+  contentType?: ExtractedMetadata['contentType'];
+};
+
+// Configuration constants
+const RETRY_DELAY_BASE = 30 * 1000; // 30 seconds, doubled on every failed attempt
+const LOCK_TIMEOUT = 10 * 60 * 1000; // RUNNING jobs older than this are considered abandoned
+
+let workerTimer: NodeJS.Timeout | null = null;
+
+/**
+ * Queue a (re-)extraction for an existing article and mark it as pending
+ */
+export async function enqueueExtraction(
+  articleId: string,
+  overrides?: ExtractionOverrides | null
+): Promise<ExtractionJob> {
+  const [, job] = await prisma.$transaction([
+    prisma.article.update({
+      where: { id: articleId },
+      data: { extractionStatus: 'PENDING', extractionError: null },
+    }),
+    prisma.extractionJob.create({
+      data: {
+        articleId,
+        maxAttempts: env.ingestionMaxAttempts,
+        overrides: overrides ? (overrides as Prisma.InputJsonObject) : undefined,
+      },
+    }),
+  ]);
+
+  return job;
+}
+
+/**
+ * Start polling the database for pending extraction jobs.
+ * Jobs are processed one at a time; several instances can run side by side
+ * because a job is only processed by the worker that managed to claim it.
+ */
+export function startIngestionWorker(): void {
+  if (workerTimer) {
+    return;
+  }
+
+  const tick = async () => {
+    try {
+      // Drain the queue before sleeping again
+      while (await processNextJob()) {
+        // keep going
+      }
+    } catch (error) {
+      console.error('Ingestion worker error:', error);
+    } finally {
+      workerTimer = setTimeout(tick, env.ingestionPollInterval);
+    }
+  };
+
+  workerTimer = setTimeout(tick, 0);
+}
+
+/**
+ * Claim and run the next due job.
+ * Returns false when there was nothing to do.
+ */
+export async function processNextJob(): Promise<boolean> {
+  const now = new Date();
+
+  const candidate = await prisma.extractionJob.findFirst({
+    where: {
+      OR: [
+        { status: 'PENDING', runAt: { lte: now } },
+        { status: 'RUNNING', lockedAt: { lt: new Date(now.getTime() - LOCK_TIMEOUT) } },
+      ],
+    },
+    orderBy: { runAt: 'asc' },
+  });
+
+  if (!candidate) {
+    return false;
+  }
+
+  // Only one worker can move the job out of the state it was just read in
+  const claimed = await prisma.extractionJob.updateMany({
+    where: {
+      id: candidate.id,
+      status: candidate.status,
+      lockedAt: candidate.lockedAt,
+    },
+    data: {
+      status: 'RUNNING',
+      lockedAt: now,
+      attempts: { increment: 1 },
+    },
+  });
+
+  if (claimed.count === 0) {
+    // Another worker got it first; look for the next one
+    return true;
+  }
+
+  await runJob({ ...candidate, attempts: candidate.attempts + 1 });
+  return true;
+}
+
+async function runJob(job: ExtractionJob): Promise<void> {
+  const article = await prisma.article.findUnique({
+    where: { id: job.articleId },
+  });
+
+  if (!article) {
+    // Article was deleted meanwhile; the job goes with it through the cascade
+    return;
+  }
+
+  await prisma.article.update({
+    where: { id: article.id },
+    data: { extractionStatus: 'RUNNING' },
+  });
+
+  try {
+    const overrides = (job.overrides ?? {}) as ExtractionOverrides;
+    // New articles are organized on their first successful extraction, whatever content they were saved with.
+    // Articles saved without one were organized right away; re-extracting them changes nothing.
+    const jobs = await prisma.extractionJob.findMany({
+      where: { articleId: article.id, OR: [{ isInitial: true }, { status: 'DONE' }] },
+      select: { status: true },
+    });
+    const firstExtraction = jobs.length > 0 && jobs.every(other => other.status !== 'DONE');
+    const metadata = await archiveExtractedImages(article, await extractForArticle(article, overrides));
+    const urlHash = await resolveCanonicalUrlHash(article, metadata.canonicalUrl);
+
+    // Re-extractions keep the previous content as a version
+    const updated = await replaceArticleContent(article, {
+      ...buildArticleData(article, metadata),
+      ...(urlHash ? { urlHash } : {}),
+      extractionStatus: 'DONE',
+      extractionError: null,
+    });
+    await prisma.extractionJob.update({
+      where: { id: job.id },
+      data: {
+        status: 'DONE',
+        lastError: null,
+        lockedAt: null,
+        finishedAt: new Date(),
+      },
+    });
+
+    // The first successful extraction also keeps a faithful copy of the page (see captureSnapshot)
+    if (env.snapshotEnabled && article.url && !article.snapshotUrl) {
+      await captureSnapshot(article).catch(error => {
+        console.error(`Error capturing snapshot for article ${article.id}:`, error);
+      });
+    }
+
+    // Tags and rules see the new article once its content and metadata are known
+    if (firstExtraction) {
+      await organizeNewArticle(updated);
+    }
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    const exhausted = job.attempts >= job.maxAttempts;
+    console.warn(`Extraction attempt ${job.attempts}/${job.maxAttempts} failed for article ${article.id}:`, message);
+
+    await prisma.$transaction([
+      prisma.extractionJob.update({
+        where: { id: job.id },
+        data: exhausted
+          ? { status: 'FAILED', lastError: message, lockedAt: null, finishedAt: new Date() }
+          : {
+              status: 'PENDING',
+              lastError: message,
+              lockedAt: null,
+              runAt: new Date(Date.now() + RETRY_DELAY_BASE * Math.pow(2, job.attempts - 1)),
+            },
+      }),
+      prisma.article.update({
+        where: { id: article.id },
+        data: {
+          extractionStatus: exhausted ? 'FAILED' : 'PENDING',
+          extractionError: message,
+        },
+      }),
+    ]);
+  }
+}
+
+async function extractForArticle(article: Article, overrides: ExtractionOverrides): Promise<ExtractedMetadata> {
+  if (article.fileUrl) {
+    const buffer = await downloadFile(article.fileUrl);
+    const metadata = await extractContentFromFile(
+      buffer,
+      article.fileName || 'file',
+      article.fileType || undefined
+    );
+
+    if (overrides.title) metadata.title = overrides.title;
+    if (overrides.description) metadata.description = overrides.description;
+    if (overrides.contentType) metadata.contentType = overrides.contentType;
+    return metadata;
+  }
+
+  if (!article.url) {
+    throw new Error('Article has neither a URL nor a file to extract from');
+  }
+
+  return extractContent(article.url, true, true);
+}
+
+/**
+ * Point the extracted content at our own copies of its images when the
+ * user has image archiving on. Archiving problems never fail the job.
+ */
+export async function archiveExtractedImages(article: Article, metadata: ExtractedMetadata): Promise<ExtractedMetadata> {
+  try {
+    if (!(await shouldArchiveImages(article.userId))) {
+      return metadata;
+    }
+    const { fields } = await archiveArticleImages(article, metadata);
+    return fields;
+  } catch (error) {
+    console.error(`Error archiving images for article ${article.id}:`, error);
+    return metadata;
+  }
+}
+
+/**
+ * Merge extracted metadata into the article, keeping stored values
+ * where the extractor came back empty
+ */
+export function buildArticleData(article: Article, metadata: ExtractedMetadata): Prisma.ArticleUpdateInput {
+  const attributes: Record<string, any> = {
+    ...((article.attributes as Record<string, any> | null) ?? {}),
+  };
+
+  if (metadata.author) {
+    attributes.author = metadata.author;
+  }
+  if (metadata.publishedDate) {
+    attributes.publishedDate = metadata.publishedDate;
+  }
+  if (Array.isArray(metadata.images) && metadata.images.length > 0) {
+    attributes.images = metadata.images;
+  }
+
+  return {
+    title: metadata.title || article.title,
+    description: metadata.description || article.description,
+    favicon: metadata.favicon || article.favicon,
+    coverImage: metadata.coverImage || article.coverImage,
+    siteName: metadata.siteName || article.siteName,
+    content: metadata.content || article.content,
+    contentType: metadata.contentType,
+    wordCount: metadata.wordCount ?? article.wordCount,
+    readingTime: metadata.readingTime ?? article.readingTime,
+    totalPages: metadata.totalPages ?? article.totalPages,
+    attributes: Object.keys(attributes).length > 0 ? attributes : undefined,
+  };
+}
@@ -0,0 +1,135 @@
+import crypto from 'crypto';
+import { simpleParser } from 'mailparser';
+import { prisma } from '../config/prisma';
+import { env } from '../config/env';
+import { extractFromHtml, htmlToPlainText, toReaderHtml } from './contentExtractor';
+import { computeFingerprint } from './fingerprint';
+import { summarizeContent } from './summarizer';
+import { restoreArticle } from './trash';
+import { organizeNewArticle, type SaveArticleResult } from './articleIngestion';
+
+const MAX_DESCRIPTION_LENGTH = 300;
+
+/**
+ * Save a raw RFC 822 message as a NEWSLETTER article.
+ * The HTML part (or the text part, converted) goes through the same reading
+ * pipeline as web pages; the sender becomes the site name and the subject the
+ * title. A message already saved (same Message-ID) is returned as is.
+ */
+export async function saveNewsletter(userId: string, raw: Buffer): Promise<SaveArticleResult> {
+  const mail = await simpleParser(raw);
+
+  // Messages without a Message-ID are identified by their content
+  const messageId = mail.messageId || `<${crypto.createHash('sha256').update(raw).digest('hex')}@local>`;
+
+  const existing = await prisma.article.findFirst({
+    where: {
+      userId,
+      contentType: 'NEWSLETTER',
+      attributes: {
+        path: ['messageId'],
+        equals: messageId,
+      },
+    },
+  });
+
+  if (existing?.deletedAt) {
+    return { article: await restoreArticle(existing), created: true };
+  }
+
+  if (existing) {
+    return { article: existing, created: false };
+  }
+
+  const sender = mail.from?.value[0];
+  const html = mail.html || mail.textAsHtml || '';
+  const metadata = extractFromHtml(html, undefined, 'NEWSLETTER');
+
+  // Very short messages can be rejected by Readability; keep the whole body then
+  const content = metadata.content || toReaderHtml(html) || null;
+  const description = metadata.description || summarize(content);
+
+  const article = await prisma.article.create({
+    data: {
+      userId,
+      contentType: 'NEWSLETTER',
+      title: mail.subject || metadata.title || sender?.name || sender?.address || 'Newsletter',
+      description,
+      coverImage: metadata.coverImage,
+      siteName: sender?.name || sender?.address || metadata.siteName,
+      content,
+      contentFingerprint: computeFingerprint(content),
+      ...summarizeContent(content),
+      wordCount: metadata.wordCount,
+      readingTime: metadata.readingTime,
+      attributes: {
+        messageId,
+        ...(sender?.address ? { author: sender.address } : {}),
+        ...(mail.date ? { publishedDate: mail.date.toISOString() } : {}),
+      },
+      ...(mail.date ? { createdAt: mail.date } : {}),
+    },
+  });
+
+  await organizeNewArticle(article);
+
+  return { article, created: true };
+}
+
+/**
+ * Return the user's newsletter inbox token, creating one on first use
+ */
+export async function getInboxToken(userId: string): Promise<string> {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { inboxToken: true },
+  });
+
+  return user?.inboxToken ?? rotateInboxToken(userId);
+}
+
+/**
+ * Issue a new inbox token; mail sent to the previous address is rejected
+ */
+export async function rotateInboxToken(userId: string): Promise<string> {
+  const inboxToken = crypto.randomBytes(12).toString('hex');
+
+  await prisma.user.update({
+    where: { id: userId },
+    data: { inboxToken },
+  });
+
+  return inboxToken;
+}
+
+export function getInboxAddress(inboxToken: string): string {
+  return `${inboxToken}@${env.inboxDomain}`;
+}
+
+/**
+ * Find the owner of an inbox address (<token>@<INBOX_DOMAIN>)
+ */
+export async function findInboxUserId(address: string): Promise<string | null> {
+  const at = address.lastIndexOf('@');
+  if (at <= 0 || address.slice(at + 1).toLowerCase() !== env.inboxDomain.toLowerCase()) {
+    return null;
+  }
+
+  const user = await prisma.user.findUnique({
+    where: { inboxToken: address.slice(0, at).toLowerCase() },
+    select: { id: true },
+  });
+
+  return user?.id ?? null;
+}
+
+function summarize(content: string | null): string | undefined {
+  if (!content) {
+    return undefined;
+  }
+  const text = htmlToPlainText(content).replace(/\s+/g, ' ').trim();
+  if (!text) {
+    return undefined;
+  }
+  return text.length > MAX_DESCRIPTION_LENGTH ? `${text.slice(0, MAX_DESCRIPTION_LENGTH - 1)}…` : text;
+}
@@ -0,0 +1,75 @@
+import { SMTPServer } from 'smtp-server';
+import { env } from '../config/env';
+import { findInboxUserId, saveNewsletter } from './newsletterIngestion';
+
+const MAX_MESSAGE_SIZE = 20 * 1024 * 1024; // 20MB
+
+let server: SMTPServer | null = null;
+
+/**
+ * Start a minimal SMTP listener that accepts mail for inbox addresses
+ * (<token>@<INBOX_DOMAIN>) and saves each message as a newsletter.
+ * It is meant to sit behind an MX/relay; there is no AUTH and no TLS.
+ */
+export function startNewsletterSmtpServer(): void {
+  if (server) {
+    return;
+  }
+
+  server = new SMTPServer({
+    authOptional: true,
+    disabledCommands: ['AUTH', 'STARTTLS'],
+    size: MAX_MESSAGE_SIZE,
+    logger: false,
+
+    onRcptTo(address, session, callback) {
+      findInboxUserId(address.address)
+        .then(userId => {
+          if (!userId) {
+            return callback(new Error(`Unknown recipient ${address.address}`));
+          }
+          callback();
+        })
+        .catch(error => callback(error));
+    },
+
+    onData(stream, session, callback) {
+      const chunks: Buffer[] = [];
+      stream.on('data', (chunk: Buffer) => chunks.push(chunk));
+      stream.on('error', error => callback(error));
+      stream.on('end', () => {
+        if (stream.sizeExceeded) {
+          return callback(new Error('Message exceeds fixed maximum message size'));
+        }
+
+        const raw = Buffer.concat(chunks);
+        deliver(raw, session.envelope.rcptTo.map(recipient => recipient.address))
+          .then(() => callback())
+          .catch(error => {
+            console.error('Error saving newsletter:', error);
+            callback(new Error('Message could not be saved'));
+          });
+      });
+    },
+  });
+
+  server.on('error', error => {
+    console.error('SMTP server error:', error);
+  });
+
+  server.listen(env.smtpPort);
+}
+
+async function deliver(raw: Buffer, recipients: string[]): Promise<void> {
+  const userIds = new Set<string>();
+  for (const recipient of recipients) {
+    const userId = await findInboxUserId(recipient);
+    if (userId) {
+      userIds.add(userId);
+    }
+  }
+
+  for (const userId of userIds) {
+    await saveNewsletter(userId, raw);
+  }
+}
@@ -0,0 +1,104 @@
+import { JSDOM } from 'jsdom';
+
+export interface OpmlSubscription {
+  url: string;
+  title?: string;
+  siteUrl?: string;
+  tags: string[];
+}
+
+export interface OpmlFeed {
+  url: string;
+  title: string | null;
+  siteUrl: string | null;
+  tags: string[];
+}
+
+/**
+ * Read feed subscriptions from an OPML file. Folder outlines and the
+ * category attribute both become tags.
+ */
+export function parseOpml(text: string): OpmlSubscription[] {
+  let document: Document;
+  try {
+    document = new JSDOM(text, { contentType: 'text/xml' }).window.document;
+  } catch {
+    throw new Error('OPML is not valid XML');
+  }
+
+  const body = Array.from(document.documentElement.children).find(child => child.localName === 'body');
+  if (!body) {
+    throw new Error('OPML has no body');
+  }
+
+  const subscriptions: OpmlSubscription[] = [];
+  walk(body, [], subscriptions);
+  return subscriptions;
+}
+
+function walk(element: Element, folders: string[], subscriptions: OpmlSubscription[]): void {
+  for (const outline of Array.from(element.children).filter(child => child.localName === 'outline')) {
+    const xmlUrl = outline.getAttribute('xmlUrl');
+    const text = outline.getAttribute('title') || outline.getAttribute('text') || undefined;
+
+    if (!xmlUrl) {
+      walk(outline, text ? [...folders, text] : folders, subscriptions);
+      continue;
+    }
+
+    // category="/tech,/news/daily" lists slash-delimited paths
+    const categories = (outline.getAttribute('category') || '')
+      .split(',')
+      .map(category => category.trim().replace(/^\/+/, ''))
+      .filter(category => category.length > 0);
+
+    subscriptions.push({
+      url: xmlUrl.trim(),
+      title: text,
+      siteUrl: outline.getAttribute('htmlUrl') || undefined,
+      tags: Array.from(new Set([...folders, ...categories])),
+    });
+  }
+}
+
+/**
+ * Render subscriptions as an OPML 2.0 document (tags go in the category attribute)
+ */
+export function renderOpml(feeds: OpmlFeed[]): string {
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<opml version="2.0">',
+    '  <head>',
+    '    <title>Read It Later subscriptions</title>',
+    `    <dateCreated>${new Date().toUTCString()}</dateCreated>`,
+    '  </head>',
+    '  <body>',
+  ];
+
+  for (const feed of feeds) {
+    const title = escapeXml(feed.title || feed.url);
+    const attributes = [
+      'type="rss"',
+      `text="${title}"`,
+      `title="${title}"`,
+      `xmlUrl="${escapeXml(feed.url)}"`,
+      ...(feed.siteUrl ? [`htmlUrl="${escapeXml(feed.siteUrl)}"`] : []),
+      ...(feed.tags.length > 0 ? [`category="${escapeXml(feed.tags.join(','))}"`] : []),
+    ];
+    lines.push(`    <outline ${attributes.join(' ')}/>`);
+  }
+
+  lines.push('  </body>', '</opml>');
+  return lines.join('\n') + '\n';
+}
+
+function escapeXml(str: string): string {
+  const map: { [key: string]: string } = {
+    '&': '&amp;',
+    '<': '&lt;',
+    '>': '&gt;',
+    '"': '&quot;',
+    "'": '&apos;'
+  };
+  return str.replace(/[&<>"']/g, (m) => map[m]);
+}
@@ -0,0 +1,230 @@
+import type { $Enums, Prisma } from '@prisma/client';
+import { prisma } from '../config/prisma';
+import { plainTitle } from './contentExtractor';
+
+// Books per export page, as in Readwise's own export endpoint
+const EXPORT_PAGE_SIZE = 100;
+
+// Readwise categories for our content types
+const CATEGORIES: Record<$Enums.ArticleContentType, string> = {
+  ARTICLE: 'articles',
+  BLOG: 'articles',
+  NEWSLETTER: 'articles',
+  PDF: 'articles',
+  YOUTUBE: 'articles',
+  TWITTER: 'tweets',
+  BOOK: 'books',
+  EBOOK: 'books',
+};
+
+const bookInclude = {
+  articleTags: {
+    include: {
+      tag: true,
+    },
+  },
+  notes: {
+    where: { highlightId: null, deletedAt: null },
+    orderBy: { createdAt: 'asc' },
+  },
+} satisfies Prisma.ArticleInclude;
+
+const highlightInclude = {
+  notes: {
+    where: { deletedAt: null },
+    orderBy: { createdAt: 'asc' },
+  },
+} satisfies Prisma.HighlightInclude;
+
+type BookArticle = Prisma.ArticleGetPayload<{ include: typeof bookInclude }>;
+type BookHighlight = Prisma.HighlightGetPayload<{ include: typeof highlightInclude }>;
+
+export interface ReadwiseHighlight {
+  id: string;
+  text: string;
+  location: number | null;
+  location_type: string;
+  note: string;
+  color: string;
+  highlighted_at: string;
+  created_at: string;
+  updated_at: string;
+  external_id: string;
+  end_location: null;
+  url: string | null;
+  book_id: string;
+  tags: Array<{ id: string; name: string }>;
+  is_favorite: boolean;
+  is_discard: boolean;
+  is_deleted: boolean;
+  readwise_url: null;
+}
+
+export interface ReadwiseBook {
+  user_book_id: string;
+  title: string;
+  readable_title: string;
+  author: string | null;
+  source: string;
+  cover_image_url: string | null;
+  unique_url: string | null;
+  source_url: string | null;
+  summary: string | null;
+  book_tags: Array<{ id: string; name: string }>;
+  category: string;
+  document_note: string | null;
+  readwise_url: null;
+  asin: null;
+  highlights: ReadwiseHighlight[];
+}
+
+/**
+ * One page of the Readwise export: the user's articles that have
+ * highlights, each with its highlights. With updatedAfter only highlights
+ * changed since then are returned (a new or edited note counts as a change),
+ * including trashed ones flagged is_deleted so syncing tools can drop them.
+ * Trashing an article trashes its highlights, so its book is listed too.
+ */
+export async function exportBooks(userId: string, options: { updatedAfter?: Date; pageCursor?: string }) {
+  const highlightWhere = buildHighlightWhere(options.updatedAfter);
+
+  const articles = await prisma.article.findMany({
+    where: {
+      userId,
+      ...buildBookWhere(options.updatedAfter),
+      highlights: { some: highlightWhere },
+      ...(options.pageCursor ? { id: { gt: options.pageCursor } } : {}),
+    },
+    include: {
+      ...bookInclude,
+      highlights: {
+        where: highlightWhere,
+        include: highlightInclude,
+        orderBy: { createdAt: 'asc' },
+      },
+    },
+    orderBy: { id: 'asc' },
+    take: EXPORT_PAGE_SIZE + 1,
+  });
+
+  const hasMore = articles.length > EXPORT_PAGE_SIZE;
+  const page = hasMore ? articles.slice(0, EXPORT_PAGE_SIZE) : articles;
+
+  return {
+    count: page.length,
+    nextPageCursor: hasMore ? page[page.length - 1].id : null,
+    results: page.map(article => toReadwiseBook(article, article.highlights)),
+  };
+}
+
+/**
+ * Highlights without their books, newest change first, paged like
+ * Readwise's highlight list
+ */
+export async function listHighlights(
+  userId: string,
+  options: { updatedAfter?: Date; page: number; pageSize: number }
+) {
+  const where: Prisma.HighlightWhereInput = {
+    userId,
+    article: buildBookWhere(options.updatedAfter),
+    ...buildHighlightWhere(options.updatedAfter),
+  };
+
+  const [highlights, count] = await Promise.all([
+    prisma.highlight.findMany({
+      where,
+      include: {
+        ...highlightInclude,
+        article: { select: { url: true, deletedAt: true } },
+      },
+      orderBy: [{ updatedAt: 'desc' }, { id: 'desc' }],
+      skip: (options.page - 1) * options.pageSize,
+      take: options.pageSize,
+    }),
+    prisma.highlight.count({ where }),
+  ]);
+
+  return {
+    count,
+    hasMore: options.page * options.pageSize < count,
+    results: highlights.map(highlight =>
+      toReadwiseHighlight(highlight, highlight.article.url, highlight.article.deletedAt !== null)
+    ),
+  };
+}
+
+// Incremental syncs also see articles moved to the trash, to delete their highlights
+function buildBookWhere(updatedAfter?: Date): Prisma.ArticleWhereInput {
+  return updatedAfter ? {} : { deletedAt: null };
+}
+
+function buildHighlightWhere(updatedAfter?: Date): Prisma.HighlightWhereInput {
+  if (!updatedAfter) {
+    return { deletedAt: null };
+  }
+  // Notes do not touch the highlight's updatedAt
+  return {
+    OR: [
+      { updatedAt: { gt: updatedAfter } },
+      { notes: { some: { updatedAt: { gt: updatedAfter } } } },
+    ],
+  };
+}
+
+function toReadwiseBook(article: BookArticle, highlights: BookHighlight[]): ReadwiseBook {
+  const title = plainTitle(article.title) || article.fileName || article.url || 'Untitled';
+  const attributes = (article.attributes ?? {}) as Record<string, unknown>;
+
+  return {
+    user_book_id: article.id,
+    title,
+    readable_title: title,
+    author: typeof attributes.author === 'string' ? attributes.author : article.siteName,
+    source: 'read-it-later',
+    cover_image_url: article.coverImage,
+    unique_url: article.url,
+    source_url: article.url,
+    summary: article.description,
+    book_tags: article.articleTags.map(({ tag }) => ({ id: tag.id, name: tag.name })),
+    category: CATEGORIES[article.contentType],
+    document_note: article.notes.map(note => note.content).join('\n\n') || null,
+    readwise_url: null,
+    asin: null,
+    highlights: highlights.map(highlight => toReadwiseHighlight(highlight, article.url, article.deletedAt !== null)),
+  };
+}
+
+function toReadwiseHighlight(
+  highlight: BookHighlight,
+  articleUrl: string | null,
+  articleDeleted: boolean
+): ReadwiseHighlight {
+  // Numeric positions are offsets in the article; anything else has no location
+  const location = highlight.position && /^\d+$/.test(highlight.position) ? parseInt(highlight.position) : null;
+  const updatedAt = highlight.notes.reduce(
+    (latest, note) => (note.updatedAt > latest ? note.updatedAt : latest),
+    highlight.updatedAt
+  );
+
+  return {
+    id: highlight.id,
+    text: highlight.text,
+    location,
+    location_type: 'offset',
+    note: highlight.notes.map(note => note.content).join('\n\n'),
+    color: highlight.color || 'yellow',
+    highlighted_at: highlight.createdAt.toISOString(),
+    created_at: highlight.createdAt.toISOString(),
+    updated_at: updatedAt.toISOString(),
+    external_id: highlight.id,
+    end_location: null,
+    url: articleUrl,
+    book_id: highlight.articleId,
+    tags: [],
+    is_favorite: false,
+    is_discard: false,
+    is_deleted: highlight.deletedAt !== null || articleDeleted,
+    readwise_url: null,
+  };
+}
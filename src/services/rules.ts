@@ -0,0 +1,348 @@
+import { z } from 'zod';
+import { Prisma, type Rule } from '@prisma/client';
+import { prisma } from '../config/prisma';
+import { plainTitle } from './contentExtractor';
+import { runBulkAction, type BulkAction } from './bulkActions';
+
+const BATCH_SIZE = 500; // Articles evaluated per query when running over the library
+const PREVIEW_LIMIT = 50; // Matching articles listed per rule in a run's result
+
+const textCondition = <T extends string>(field: T) =>
+  z.object({
+    field: z.literal(field),
+    // matches takes a wildcard pattern over the whole value: * stands for any run of characters
+    operator: z.enum(['equals', 'contains', 'startsWith', 'endsWith', 'matches']).default('contains'),
+    value: z.string().min(1).max(500),
+  });
+
+export const ruleConditionSchema = z.discriminatedUnion('field', [
+  // Matches the host and its subdomains (example.com also matches blog.example.com)
+  z.object({ field: z.literal('domain'), value: z.string().min(1) }),
+  textCondition('siteName'),
+  textCondition('url'),
+  textCondition('author'),
+  z.object({
+    field: z.literal('title'),
+    keywords: z.array(z.string().min(1)).min(1),
+    mode: z.enum(['any', 'all']).default('any'),
+  }),
+  z.object({
+    field: z.literal('contentType'),
+    values: z.array(z.enum(['ARTICLE', 'BLOG', 'PDF', 'YOUTUBE', 'TWITTER', 'NEWSLETTER', 'BOOK', 'EBOOK'])).min(1),
+  }),
+  z.object({
+    field: z.literal('wordCount'),
+    min: z.number().int().min(0).optional(),
+    max: z.number().int().min(0).optional(),
+  }),
+]);
+
+export const ruleActionSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('addTags'), tagIds: z.array(z.string()).min(1) }),
+  z.object({ type: z.literal('addToCollection'), collectionId: z.string() }),
+  z.object({ type: z.literal('setStatus'), status: z.enum(['UNREAD', 'READING', 'PAUSED', 'FINISHED', 'ARCHIVED']) }),
+  z.object({ type: z.literal('favorite') }),
+  z.object({ type: z.literal('archive') }),
+]);
+
+const conditionsSchema = z
+  .array(ruleConditionSchema)
+  .min(1)
+  .max(20)
+  .superRefine((conditions, ctx) => {
+    conditions.forEach((condition, index) => {
+      if (condition.field === 'wordCount' && condition.min === undefined && condition.max === undefined) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: [index], message: 'Informe min ou max' });
+      }
+    });
+  });
+
+export const ruleSchema = z.object({
+  name: z.string().min(1).max(100),
+  matchMode: z.enum(['all', 'any']).default('all'),
+  conditions: conditionsSchema,
+  actions: z.array(ruleActionSchema).min(1).max(10),
+  isActive: z.boolean().default(true),
+  position: z.number().int().min(0).default(0), // Rules run in ascending position
+});
+
+export type RuleCondition = z.infer<typeof ruleConditionSchema>;
+export type RuleAction = z.infer<typeof ruleActionSchema>;
+export type RuleDefinition = Pick<z.infer<typeof ruleSchema>, 'name' | 'matchMode' | 'conditions' | 'actions'>;
+
+export interface RuleRunResult {
+  ruleId: string | null; // null for an unsaved rule being previewed
+  name: string;
+  matched: number;
+  updated: number; // Articles an action changed; 0 in dry runs
+  preview: Array<{ id: string; title: string | null; url: string | null }>; // First matches
+}
+
+// Fields conditions look at
+const ruleArticleSelect = {
+  id: true,
+  url: true,
+  siteName: true,
+  contentType: true,
+  title: true,
+  wordCount: true,
+  attributes: true,
+} satisfies Prisma.ArticleSelect;
+
+type RuleArticle = Prisma.ArticleGetPayload<{ select: typeof ruleArticleSelect }>;
+
+/**
+ * Apply the user's active rules to one article. Called when an article is
+ * created, once its title and metadata are known. Returns the rules that
+ * matched.
+ */
+export async function applyRulesToArticle(userId: string, articleId: string): Promise<string[]> {
+  const rules = await prisma.rule.findMany({
+    where: { userId, isActive: true },
+    orderBy: [{ position: 'asc' }, { createdAt: 'asc' }],
+  });
+  if (rules.length === 0) {
+    return [];
+  }
+
+  const article = await prisma.article.findFirst({
+    where: { id: articleId, userId, deletedAt: null },
+    select: ruleArticleSelect,
+  });
+  if (!article) {
+    return [];
+  }
+
+  const matched: string[] = [];
+  for (const rule of rules) {
+    const definition = toDefinition(rule);
+    if (matchesRule(article, definition)) {
+      await applyActions(userId, [article.id], definition.actions);
+      matched.push(rule.id);
+    }
+  }
+  return matched;
+}
+
+/**
+ * Run rules over the user's whole library (articles in the trash are left
+ * alone). With dryRun nothing is changed and the result only tells which
+ * articles match. Rules may be saved ones or unsaved definitions.
+ */
+export async function runRules(
+  userId: string,
+  rules: Array<Rule | RuleDefinition>,
+  options: { dryRun: boolean }
+): Promise<RuleRunResult[]> {
+  const definitions = rules.map(rule => ('userId' in rule ? toDefinition(rule) : rule));
+  const results: RuleRunResult[] = rules.map((rule, index) => ({
+    ruleId: 'id' in rule ? rule.id : null,
+    name: definitions[index].name,
+    matched: 0,
+    updated: 0,
+    preview: [],
+  }));
+
+  let cursor: string | undefined;
+  while (true) {
+    const articles = await prisma.article.findMany({
+      where: { userId, deletedAt: null },
+      select: ruleArticleSelect,
+      orderBy: { id: 'asc' },
+      take: BATCH_SIZE,
+      ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {}),
+    });
+
+    if (articles.length === 0) {
+      break;
+    }
+    cursor = articles[articles.length - 1].id;
+
+    for (const [index, definition] of definitions.entries()) {
+      const matches = articles.filter(article => matchesRule(article, definition));
+      const result = results[index];
+
+      result.matched += matches.length;
+      result.preview.push(
+        ...matches
+          .slice(0, PREVIEW_LIMIT - result.preview.length)
+          .map(article => ({ id: article.id, title: plainTitle(article.title), url: article.url }))
+      );
+
+      if (!options.dryRun && matches.length > 0) {
+        result.updated += await applyActions(userId, matches.map(article => article.id), definition.actions);
+      }
+    }
+
+    if (articles.length < BATCH_SIZE) {
+      break;
+    }
+  }
+
+  return results;
+}
+
+/**
+ * Whether a rule's conditions hold for the article
+ */
+export function matchesRule(article: RuleArticle, rule: Pick<RuleDefinition, 'matchMode' | 'conditions'>): boolean {
+  const test = (condition: RuleCondition) => matchesCondition(article, condition);
+  return rule.matchMode === 'any' ? rule.conditions.some(test) : rule.conditions.every(test);
+}
+
+function matchesCondition(article: RuleArticle, condition: RuleCondition): boolean {
+  switch (condition.field) {
+    case 'domain': {
+      const host = getHost(article.url);
+      const domain = condition.value.toLowerCase().replace(/^www\./, '');
+      return host !== null && (host === domain || host.endsWith(`.${domain}`));
+    }
+    case 'siteName':
+      return matchesText(article.siteName, condition.operator, condition.value);
+    case 'url':
+      return matchesText(article.url, condition.operator, condition.value);
+    case 'author': {
+      const author = (article.attributes as Record<string, unknown> | null)?.author;
+      return matchesText(typeof author === 'string' ? author : null, condition.operator, condition.value);
+    }
+    case 'title': {
+      const title = plainTitle(article.title)?.toLowerCase() ?? '';
+      const test = (keyword: string) => title.includes(keyword.toLowerCase());
+      return condition.mode === 'all' ? condition.keywords.every(test) : condition.keywords.some(test);
+    }
+    case 'contentType':
+      return condition.values.includes(article.contentType);
+    case 'wordCount':
+      return (
+        article.wordCount !== null &&
+        (condition.min === undefined || article.wordCount >= condition.min) &&
+        (condition.max === undefined || article.wordCount <= condition.max)
+      );
+  }
+}
+
+function matchesText(
+  value: string | null,
+  operator: 'equals' | 'contains' | 'startsWith' | 'endsWith' | 'matches',
+  expected: string
+): boolean {
+  if (!value) {
+    return false;
+  }
+
+  const text = value.toLowerCase();
+  const target = expected.toLowerCase();
+  switch (operator) {
+    case 'matches':
+      return matchesWildcard(text, target);
+    case 'equals':
+      return text === target;
+    case 'startsWith':
+      return text.startsWith(target);
+    case 'endsWith':
+      return text.endsWith(target);
+    default:
+      return text.includes(target);
+  }
+}
+
+/**
+ * Apply a rule's actions to the articles; returns how many changed.
+ * Tags and collections deleted since the rule was saved are skipped, as
+ * are collections made smart since.
+ */
+async function applyActions(userId: string, articleIds: string[], actions: RuleAction[]): Promise<number> {
+  const changed = new Set<string>();
+
+  for (const action of actions) {
+    const bulkAction = await toBulkAction(userId, action);
+    if (!bulkAction) {
+      continue;
+    }
+    const results = await runBulkAction(userId, articleIds, bulkAction);
+    results.filter(item => item.result === 'updated').forEach(item => changed.add(item.id));
+  }
+
+  return changed.size;
+}
+
+async function toBulkAction(userId: string, action: RuleAction): Promise<BulkAction | null> {
+  switch (action.type) {
+    case 'addTags': {
+      const tags = await prisma.tag.findMany({
+        where: { id: { in: action.tagIds }, userId },
+        select: { id: true },
+      });
+      return tags.length > 0 ? { type: 'addTags', tagIds: tags.map(tag => tag.id) } : null;
+    }
+    case 'addToCollection': {
+      const collection = await prisma.collection.findFirst({
+        where: { id: action.collectionId, userId, deletedAt: null, query: { equals: Prisma.DbNull } },
+        select: { id: true },
+      });
+      return collection ? { type: 'addToCollection', collectionId: collection.id } : null;
+    }
+    case 'setStatus':
+      return { type: 'setStatus', status: action.status };
+    case 'favorite':
+      return { type: 'favorite', isFavorited: true };
+    case 'archive':
+      return { type: 'setStatus', status: 'ARCHIVED' };
+  }
+}
+
+/**
+ * Stored conditions and actions were validated on save
+ */
+function toDefinition(rule: Rule): RuleDefinition {
+  return {
+    name: rule.name,
+    matchMode: rule.matchMode === 'any' ? 'any' : 'all',
+    conditions: rule.conditions as RuleCondition[],
+    actions: rule.actions as RuleAction[],
+  };
+}
+
+function getHost(url: string | null): string | null {
+  if (!url) {
+    return null;
+  }
+  try {
+    return new URL(url).hostname.toLowerCase().replace(/^www\./, '');
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Whole-value match where * stands for any run of characters. Patterns come
+ * from users and run on the shared event loop, so no RegExp is built: the
+ * greedy scan backtracks only to the last *, taking at most
+ * text.length × pattern.length steps.
+ */
+function matchesWildcard(text: string, pattern: string): boolean {
+  let t = 0;
+  let p = 0;
+  let star = -1; // Pattern position just after the last * seen
+  let resume = 0; // Text position that * is currently taken to end at
+
+  while (t < text.length) {
+    if (p < pattern.length && pattern[p] === '*') {
+      star = ++p;
+      resume = t;
+    } else if (p < pattern.length && pattern[p] === text[t]) {
+      p++;
+      t++;
+    } else if (star !== -1) {
+      p = star;
+      t = ++resume;
+    } else {
+      return false;
+    }
+  }
+
+  while (p < pattern.length && pattern[p] === '*') {
+    p++;
+  }
+  return p === pattern.length;
+}
@@ -0,0 +1,98 @@
+import { z } from 'zod';
+import type { Collection, Prisma } from '@prisma/client';
+import { prisma } from '../config/prisma';
+import { articleFilterSchema, buildArticleWhere, buildTextSearchWhere, type ArticleFilter } from './articleFilters';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+export const SMART_COLLECTION_ERROR = 'Coleções inteligentes não aceitam artigos adicionados manualmente';
+
+const withinDays = z.coerce.number().int().min(1).max(3650).optional();
+
+/**
+ * Saved query of a smart collection: the filters of GET /articles (except
+ * collectionId), full-text terms and date ranges relative to today
+ */
+export const smartQuerySchema = articleFilterSchema.omit({ collectionId: true }).extend({
+  q: z.string().trim().min(1).max(200).optional(), // Every term must appear in the title, description, URL, site or content
+  createdWithinDays: withinDays,
+  lastReadWithinDays: withinDays,
+  finishedWithinDays: withinDays,
+});
+
+export type SmartQuery = z.infer<typeof smartQuerySchema>;
+
+/**
+ * Whether the collection's articles come from a saved query rather than
+ * ArticleCollection rows
+ */
+export function isSmartCollection(collection: Pick<Collection, 'query'>): boolean {
+  return collection.query !== null && typeof collection.query === 'object';
+}
+
+/**
+ * Parse a stored query. Stored queries were validated on save; values are
+ * parsed again so dates and defaults come back typed.
+ */
+export function parseSmartQuery(query: Prisma.JsonValue): SmartQuery {
+  return smartQuerySchema.parse(query ?? {});
+}
+
+/**
+ * JSON to store for a parsed query (dates as ISO strings, unset keys dropped)
+ */
+export function toStoredQuery(query: SmartQuery): Prisma.InputJsonObject {
+  return JSON.parse(JSON.stringify(query));
+}
+
+/**
+ * Prisma filter for the articles a smart collection holds right now
+ */
+export function buildSmartCollectionWhere(userId: string, query: SmartQuery, now = new Date()): Prisma.ArticleWhereInput {
+  const filter: ArticleFilter = {
+    ...query,
+    createdFrom: latest(query.createdFrom, daysAgo(now, query.createdWithinDays)),
+    lastReadFrom: latest(query.lastReadFrom, daysAgo(now, query.lastReadWithinDays)),
+    finishedFrom: latest(query.finishedFrom, daysAgo(now, query.finishedWithinDays)),
+  };
+
+  const where = buildArticleWhere(userId, filter);
+  const terms = query.q?.split(/\s+/).filter(Boolean) ?? [];
+
+  return terms.length > 0 ? { AND: [where, ...terms.map(buildTextSearchWhere)] } : where;
+}
+
+/**
+ * buildArticleWhere for a request's filter, except that a collectionId
+ * naming a smart collection is evaluated through its saved query
+ */
+export async function resolveArticleWhere(userId: string, filter: ArticleFilter): Promise<Prisma.ArticleWhereInput> {
+  const collection = filter.collectionId
+    ? await prisma.collection.findFirst({
+        where: { id: filter.collectionId, userId, deletedAt: null },
+        select: { query: true },
+      })
+    : null;
+
+  if (!collection || !isSmartCollection(collection)) {
+    return buildArticleWhere(userId, filter);
+  }
+
+  return {
+    AND: [
+      buildArticleWhere(userId, { ...filter, collectionId: undefined }),
+      buildSmartCollectionWhere(userId, parseSmartQuery(collection.query)),
+    ],
+  };
+}
+
+function daysAgo(now: Date, days: number | undefined): Date | undefined {
+  return days === undefined ? undefined : new Date(now.getTime() - days * DAY);
+}
+
+function latest(a: Date | undefined, b: Date | undefined): Date | undefined {
+  if (!a || !b) {
+    return a ?? b;
+  }
+  return a > b ? a : b;
+}
@@ -0,0 +1,302 @@
+import { JSDOM } from 'jsdom';
+import type { Article } from '@prisma/client';
+import { prisma } from '../config/prisma';
+import { env } from '../config/env';
+import { fetchWithRetry } from './contentExtractor';
+import { uploadFile, deleteFile } from './storage';
+
+const FETCH_TIMEOUT = 15000;
+const MAX_IMPORT_DEPTH = 3;
+
+const CSS_URL_REGEX = /url\(\s*(['"]?)([^'")]+?)\1\s*\)/gi;
+const CSS_IMPORT_REGEX = /@import\s+(?:url\(\s*)?(['"]?)([^'")\s;]+)\1\s*\)?([^;]*);/gi;
+
+// Elements that would run code or load remote copies of what we inline
+const REMOVED_SELECTORS = [
+  'script',
+  'noscript',
+  'base',
+  'picture source',
+  'link[rel~="preload"]',
+  'link[rel~="modulepreload"]',
+  'link[rel~="prefetch"]',
+  'link[rel~="preconnect"]',
+  'link[rel~="dns-prefetch"]',
+  'meta[http-equiv]',
+  'meta[charset]',
+];
+
+// Attributes whose javascript: URLs would run code when followed
+const URL_ATTRIBUTES = new Set(['href', 'src', 'action', 'formaction', 'xlink:href']);
+
+interface SnapshotContext {
+  budget: number; // Bytes still allowed for inlined resources
+  cache: Map<string, string | null>; // Resource URL -> data URI (null when it could not be inlined)
+}
+
+/**
+ * Capture the article's original page as a single HTML file (stylesheets,
+ * images and fonts inlined as data URIs, scripts removed), store it and
+ * replace any previous snapshot.
+ *
+ * Snapshots are taken automatically on the first extraction only. Articles
+ * saved without one (given a title and description, newsletters) get a
+ * snapshot through POST /articles/:id/snapshot; fetching every page on save
+ * would stall imports of thousands of bookmarks.
+ */
+export async function captureSnapshot(article: Pick<Article, 'id' | 'userId' | 'url' | 'snapshotUrl'>): Promise<Article> {
+  if (!article.url) {
+    throw new Error('Article has no URL to snapshot');
+  }
+
+  const html = await fetchWithRetry(article.url);
+  const snapshot = Buffer.from(await buildSnapshot(html, article.url), 'utf-8');
+
+  if (snapshot.length > env.snapshotMaxSize) {
+    throw new Error(`Snapshot too large: ${snapshot.length} bytes`);
+  }
+
+  const upload = await uploadFile(snapshot, 'snapshot.html', 'text/html', article.userId);
+
+  const updated = await prisma.article.update({
+    where: { id: article.id },
+    data: {
+      snapshotUrl: upload.fileUrl,
+      snapshotSize: upload.fileSize,
+      snapshotAt: new Date(),
+    },
+  });
+
+  if (article.snapshotUrl) {
+    await deleteFile(article.snapshotUrl);
+  }
+
+  return updated;
+}
+
+/**
+ * Turn a fetched page into a self-contained document. Resources that fail
+ * to download or no longer fit in the size budget keep absolute URLs.
+ */
+export async function buildSnapshot(html: string, pageUrl: string, capturedAt = new Date()): Promise<string> {
+  const dom = new JSDOM(html, { url: pageUrl });
+  const document = dom.window.document;
+  const context: SnapshotContext = {
+    budget: env.snapshotMaxSize - Buffer.byteLength(html),
+    cache: new Map(),
+  };
+
+  for (const element of Array.from(document.querySelectorAll(REMOVED_SELECTORS.join(', ')))) {
+    element.remove();
+  }
+
+  // Snapshots are served from a public URL: event handlers, srcdoc documents and javascript: links go
+  for (const element of Array.from(document.querySelectorAll('*'))) {
+    for (const attribute of Array.from(element.attributes)) {
+      if (
+        attribute.name.startsWith('on') ||
+        attribute.name === 'srcdoc' ||
+        (URL_ATTRIBUTES.has(attribute.name) && /^\s*javascript:/i.test(attribute.value))
+      ) {
+        element.removeAttribute(attribute.name);
+      }
+    }
+  }
+
+  // Stylesheets become <style> blocks
+  for (const link of Array.from(document.querySelectorAll<HTMLLinkElement>('link[rel~="stylesheet"][href]'))) {
+    const css = await fetchStylesheet(link.href, context, 0);
+    if (css === null) {
+      link.setAttribute('href', link.href);
+      continue;
+    }
+    const style = document.createElement('style');
+    if (link.media) {
+      style.setAttribute('media', link.media);
+    }
+    style.textContent = css;
+    link.replaceWith(style);
+  }
+
+  for (const style of Array.from(document.querySelectorAll('style'))) {
+    if (style.textContent) {
+      style.textContent = await inlineCss(style.textContent, pageUrl, context, 0);
+    }
+  }
+
+  for (const element of Array.from(document.querySelectorAll<HTMLElement>('[style]'))) {
+    const css = element.getAttribute('style')!;
+    if (css.includes('url(')) {
+      element.setAttribute('style', await inlineCss(css, pageUrl, context, 0));
+    }
+  }
+
+  for (const image of Array.from(document.querySelectorAll('img'))) {
+    // Lazy-loading pages keep the real source in data-src
+    const src = image.getAttribute('data-src') || image.getAttribute('src');
+    const url = src ? resolveUrl(src, pageUrl) : undefined;
+    for (const name of ['srcset', 'sizes', 'data-src', 'data-srcset', 'loading']) {
+      image.removeAttribute(name);
+    }
+    if (url) {
+      image.setAttribute('src', (await fetchDataUri(url, context)) ?? url);
+    }
+  }
+
+  for (const element of Array.from(document.querySelectorAll('link[rel~="icon"][href], video[poster]'))) {
+    const name = element.tagName === 'VIDEO' ? 'poster' : 'href';
+    const url = resolveUrl(element.getAttribute(name)!, pageUrl);
+    if (url) {
+      element.setAttribute(name, (await fetchDataUri(url, context)) ?? url);
+    }
+  }
+
+  // Links keep working when the file is opened from disk
+  for (const element of Array.from(document.querySelectorAll('a[href], area[href], iframe[src], form[action]'))) {
+    const name = element.tagName === 'IFRAME' ? 'src' : element.tagName === 'FORM' ? 'action' : 'href';
+    const value = element.getAttribute(name)!;
+    if (/^\s*javascript:/i.test(value)) {
+      element.removeAttribute(name);
+    } else if (!value.startsWith('#')) {
+      element.setAttribute(name, resolveUrl(value, pageUrl) ?? value);
+    }
+  }
+
+  const head = document.head;
+  const charset = document.createElement('meta');
+  charset.setAttribute('charset', 'utf-8');
+  head.prepend(charset);
+
+  // Where and when the copy was taken, for citation
+  for (const [name, content] of [['snapshot-source', pageUrl], ['snapshot-date', capturedAt.toISOString()]]) {
+    const meta = document.createElement('meta');
+    meta.setAttribute('name', name);
+    meta.setAttribute('content', content);
+    head.append(meta);
+  }
+
+  return dom.serialize();
+}
+
+async function fetchStylesheet(url: string, context: SnapshotContext, depth: number): Promise<string | null> {
+  const resource = await fetchResource(url, context);
+  if (!resource) {
+    return null;
+  }
+  return inlineCss(resource.buffer.toString('utf-8'), url, context, depth);
+}
+
+/**
+ * Inline @import rules and url() references of a stylesheet
+ */
+async function inlineCss(css: string, baseUrl: string, context: SnapshotContext, depth: number): Promise<string> {
+  let result = '';
+  let lastIndex = 0;
+
+  for (const match of css.matchAll(CSS_IMPORT_REGEX)) {
+    result += css.slice(lastIndex, match.index);
+    lastIndex = match.index! + match[0].length;
+
+    const url = resolveUrl(match[2], baseUrl);
+    const media = match[3].trim();
+    const imported = url && depth < MAX_IMPORT_DEPTH ? await fetchStylesheet(url, context, depth + 1) : null;
+
+    if (imported === null) {
+      result += url ? `@import url("${url}")${media ? ` ${media}` : ''};` : match[0];
+    } else {
+      result += media ? `@media ${media} {\n${imported}\n}` : imported;
+    }
+  }
+  css = result + css.slice(lastIndex);
+
+  result = '';
+  lastIndex = 0;
+
+  for (const match of css.matchAll(CSS_URL_REGEX)) {
+    result += css.slice(lastIndex, match.index);
+    lastIndex = match.index! + match[0].length;
+
+    const value = match[2].trim();
+    // data: URIs and SVG fragment references stay as they are
+    const url = value.startsWith('#') ? undefined : resolveUrl(value, baseUrl);
+    if (!url) {
+      result += match[0];
+      continue;
+    }
+
+    result += `url("${(await fetchDataUri(url, context)) ?? url}")`;
+  }
+
+  return result + css.slice(lastIndex);
+}
+
+async function fetchDataUri(url: string, context: SnapshotContext): Promise<string | null> {
+  if (context.cache.has(url)) {
+    return context.cache.get(url)!;
+  }
+
+  const resource = await fetchResource(url, context);
+  const dataUri = resource ? `data:${resource.mimeType};base64,${resource.buffer.toString('base64')}` : null;
+
+  if (dataUri && dataUri.length > context.budget) {
+    context.cache.set(url, null);
+    return null;
+  }
+  if (dataUri) {
+    context.budget -= dataUri.length;
+  }
+
+  context.cache.set(url, dataUri);
+  return dataUri;
+}
+
+async function fetchResource(url: string, context: SnapshotContext): Promise<{ buffer: Buffer; mimeType: string } | null> {
+  if (context.budget <= 0) {
+    return null;
+  }
+
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), FETCH_TIMEOUT);
+
+  try {
+    const response = await globalThis.fetch(url, {
+      signal: controller.signal,
+      redirect: 'follow',
+    });
+
+    if (!response.ok) {
+      return null;
+    }
+
+    const contentLength = response.headers.get('content-length');
+    if (contentLength && parseInt(contentLength) > env.snapshotMaxResourceSize) {
+      return null;
+    }
+
+    const buffer = Buffer.from(await response.arrayBuffer());
+    if (buffer.length > env.snapshotMaxResourceSize) {
+      return null;
+    }
+
+    const mimeType = (response.headers.get('content-type') || 'application/octet-stream').split(';')[0].trim();
+    return { buffer, mimeType };
+  } catch (error) {
+    console.warn(`Snapshot resource failed ${url}:`, error instanceof Error ? error.message : error);
+    return null;
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
+
+function resolveUrl(url: string, baseUrl: string): string | undefined {
+  if (url.startsWith('data:')) {
+    return undefined;
+  }
+
+  try {
+    const absolute = new URL(url, baseUrl);
+    return absolute.protocol === 'http:' || absolute.protocol === 'https:' ? absolute.toString() : undefined;
+  } catch {
+    return undefined;
+  }
+}
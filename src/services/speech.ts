@@ -0,0 +1,175 @@
+import { JSDOM } from 'jsdom';
+
+const TOKEN_SELECTOR = '[id^="ritl-w-"]';
+
+// Elements read as their own paragraph
+const BLOCK_SELECTOR = 'p, li, h1, h2, h3, h4, h5, h6, blockquote, figcaption, td, th, dt, dd, div, section, article';
+
+// Code is unreadable aloud; its tokens are left out of the speech map
+const SKIPPED_SELECTOR = 'pre, code, script, style';
+
+// A sentence ends at a token ending in terminal punctuation (closing quotes and brackets allowed)
+const SENTENCE_END_REGEX = /[.!?…]["'”’»)\]]*$/;
+// Initials and dotted abbreviations (U.S., e.g.) do not end sentences
+const INITIALS_REGEX = /^(\p{L}\.)+$/u;
+const ABBREVIATIONS = new Set(['mr', 'mrs', 'ms', 'dr', 'prof', 'sr', 'sra', 'jr', 'st', 'vs', 'dra', 'fig']);
+
+interface Token {
+  id: string;
+  text: string;
+}
+
+export interface SpeechParagraph {
+  index: number;
+  type: string; // Tag of the block it comes from (p, h2, li...) or "title"
+  startTokenId: string;
+  endTokenId: string;
+}
+
+export interface SpeechSentence {
+  index: number;
+  paragraph: number;
+  startTokenId: string;
+  endTokenId: string;
+  text: string;
+}
+
+export interface SpeechMap {
+  ssml: string;
+  paragraphs: SpeechParagraph[];
+  sentences: SpeechSentence[];
+  tokenCount: number;
+}
+
+/**
+ * Split an article's tokenized content (the ritl-w-N spans added at
+ * extraction) into paragraphs and sentences, and build SSML with a <mark>
+ * before every token so a TTS engine reports which word it is reading.
+ * The title is read first when it was tokenized too. Returns null when
+ * the content has no token spans.
+ */
+export function buildSpeechMap(content: string, title: string | null, language: string | null): SpeechMap | null {
+  const paragraphs: Array<{ type: string; tokens: Token[] }> = [];
+
+  if (title) {
+    const titleTokens = collectTokens(title).flatMap(group => group.tokens);
+    if (titleTokens.length > 0) {
+      paragraphs.push({ type: 'title', tokens: titleTokens });
+    }
+  }
+  paragraphs.push(...collectTokens(content));
+
+  if (!paragraphs.some(paragraph => paragraph.type !== 'title')) {
+    return null;
+  }
+
+  const map: SpeechMap = { ssml: '', paragraphs: [], sentences: [], tokenCount: 0 };
+  const ssml: string[] = [];
+
+  paragraphs.forEach(({ type, tokens }, paragraphIndex) => {
+    map.paragraphs.push({
+      index: paragraphIndex,
+      type,
+      startTokenId: tokens[0].id,
+      endTokenId: tokens[tokens.length - 1].id,
+    });
+    map.tokenCount += tokens.length;
+
+    const sentencesSsml: string[] = [];
+    for (const sentence of splitSentences(tokens)) {
+      map.sentences.push({
+        index: map.sentences.length,
+        paragraph: paragraphIndex,
+        startTokenId: sentence[0].id,
+        endTokenId: sentence[sentence.length - 1].id,
+        text: sentence.map(token => token.text).join(' '),
+      });
+      sentencesSsml.push(`<s>${sentence.map(token => `<mark name="${token.id}"/>${escapeXml(token.text)}`).join(' ')}</s>`);
+    }
+    ssml.push(`<p>${sentencesSsml.join('')}</p>`);
+  });
+
+  const lang = language ? ` xml:lang="${escapeXml(language)}"` : '';
+  map.ssml = `<speak version="1.1" xmlns="http://www.w3.org/2001/10/synthesis"${lang}>${ssml.join('')}</speak>`;
+
+  return map;
+}
+
+/**
+ * Whether the content (or title) has the given token id
+ */
+export function hasToken(content: string, title: string | null, tokenId: string): boolean {
+  const attribute = `id="${tokenId}"`;
+  return content.includes(attribute) || (title?.includes(attribute) ?? false);
+}
+
+/**
+ * Token spans in document order, grouped by the block element they sit in
+ */
+function collectTokens(html: string): Array<{ type: string; tokens: Token[] }> {
+  const dom = new JSDOM(`<!DOCTYPE html><body>${html}</body>`);
+  const groups: Array<{ type: string; tokens: Token[] }> = [];
+  let currentBlock: Element | null = null;
+
+  for (const span of Array.from(dom.window.document.querySelectorAll(TOKEN_SELECTOR))) {
+    const text = span.textContent?.trim();
+    if (!text || span.closest(SKIPPED_SELECTOR)) {
+      continue;
+    }
+
+    const block = span.closest(BLOCK_SELECTOR) ?? dom.window.document.body;
+    if (block !== currentBlock || groups.length === 0) {
+      groups.push({ type: block.tagName.toLowerCase(), tokens: [] });
+      currentBlock = block;
+    }
+    groups[groups.length - 1].tokens.push({ id: span.id, text });
+  }
+
+  return groups;
+}
+
+/**
+ * Group whitespace-separated tokens into sentences
+ */
+export function splitSentences<T extends { text: string }>(tokens: T[]): T[][] {
+  const sentences: T[][] = [];
+  let current: T[] = [];
+
+  tokens.forEach((token, index) => {
+    current.push(token);
+    const next = tokens[index + 1];
+    if (next && endsSentence(token.text, next.text)) {
+      sentences.push(current);
+      current = [];
+    }
+  });
+
+  if (current.length > 0) {
+    sentences.push(current);
+  }
+  return sentences;
+}
+
+function endsSentence(text: string, nextText: string): boolean {
+  if (!SENTENCE_END_REGEX.test(text)) {
+    return false;
+  }
+  // "etc. and": the next word starting in lowercase continues the sentence
+  if (/^\p{Ll}/u.test(nextText)) {
+    return false;
+  }
+  const word = text.replace(/["'”’»)\]]+$/, '');
+  if (INITIALS_REGEX.test(word)) {
+    return false;
+  }
+  return !ABBREVIATIONS.has(word.replace(/\.$/, '').replace(/^["'“‘«(\[]+/, '').toLowerCase());
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
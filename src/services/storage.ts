@@ -1,4 +1,4 @@
-import { S3Client, PutObjectCommand, DeleteObjectCommand } from '@aws-sdk/client-s3';
+import { S3Client, PutObjectCommand, DeleteObjectCommand, GetObjectCommand } from '@aws-sdk/client-s3';
 import { env } from '../config/env';
 import crypto from 'crypto';
 
@@ -69,37 +69,68 @@ export async function uploadFile(
 }
 
 /**
- * Delete a file from Cloudflare R2
+ * Extract the object key from a stored file URL
  */
-export async function deleteFile(fileUrl: string): Promise<void> {
+function getKeyFromFileUrl(fileUrl: string): string {
+  // URL format: https://public-url.com/userId/timestamp-random.ext
+  // or: https://accountId.r2.cloudflarestorage.com/bucketName/userId/timestamp-random.ext
+  if (env.cloudflareR2PublicUrl && fileUrl.startsWith(env.cloudflareR2PublicUrl)) {
+    return fileUrl.replace(env.cloudflareR2PublicUrl + '/', '');
+  }
+  if (fileUrl.includes('/' + env.cloudflareR2BucketName + '/')) {
+    return fileUrl.split('/' + env.cloudflareR2BucketName + '/')[1];
+  }
+
+  // Try to extract from any URL format
+  const urlParts = fileUrl.split('/');
+  const bucketIndex = urlParts.findIndex(part => part === env.cloudflareR2BucketName);
+  if (bucketIndex >= 0 && bucketIndex < urlParts.length - 1) {
+    return urlParts.slice(bucketIndex + 1).join('/');
+  }
+  throw new Error('Could not extract file key from URL');
+}
+
+/**
+ * Download a file from Cloudflare R2
+ */
+export async function downloadFile(fileUrl: string): Promise<Buffer> {
   if (!env.cloudflareR2BucketName) {
     throw new Error('Cloudflare R2 bucket name not configured');
   }
 
+  const key = getKeyFromFileUrl(fileUrl);
+
   try {
-    // Extract key from URL
-    // URL format: https://public-url.com/userId/timestamp-random.ext
-    // or: https://accountId.r2.cloudflarestorage.com/bucketName/userId/timestamp-random.ext
-    let key: string;
-    
-    if (env.cloudflareR2PublicUrl && fileUrl.startsWith(env.cloudflareR2PublicUrl)) {
-      key = fileUrl.replace(env.cloudflareR2PublicUrl + '/', '');
-    } else if (fileUrl.includes('/' + env.cloudflareR2BucketName + '/')) {
-      key = fileUrl.split('/' + env.cloudflareR2BucketName + '/')[1];
-    } else {
-      // Try to extract from any URL format
-      const urlParts = fileUrl.split('/');
-      const bucketIndex = urlParts.findIndex(part => part === env.cloudflareR2BucketName);
-      if (bucketIndex >= 0 && bucketIndex < urlParts.length - 1) {
-        key = urlParts.slice(bucketIndex + 1).join('/');
-      } else {
-        throw new Error('Could not extract file key from URL');
-      }
+    const command = new GetObjectCommand({
+      Bucket: env.cloudflareR2BucketName,
+      Key: key,
+    });
+
+    const response = await s3Client.send(command);
+    if (!response.Body) {
+      throw new Error('Empty response body');
     }
 
+    const bytes = await response.Body.transformToByteArray();
+    return Buffer.from(bytes);
+  } catch (error) {
+    console.error('Error downloading file from R2:', error);
+    throw new Error('Failed to download file from storage');
+  }
+}
+
+/**
+ * Delete a file from Cloudflare R2
+ */
+export async function deleteFile(fileUrl: string): Promise<void> {
+  if (!env.cloudflareR2BucketName) {
+    throw new Error('Cloudflare R2 bucket name not configured');
+  }
+
+  try {
     const command = new DeleteObjectCommand({
       Bucket: env.cloudflareR2BucketName,
-      Key: key,
+      Key: getKeyFromFileUrl(fileUrl),
     });
 
     await s3Client.send(command);
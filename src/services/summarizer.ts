@@ -0,0 +1,167 @@
+import { JSDOM } from 'jsdom';
+import { splitSentences } from './speech';
+
+const SUMMARY_SENTENCES = 3;
+const KEY_SENTENCES = 5;
+const MIN_SENTENCES = 4; // Shorter texts are their own summary
+const MAX_SENTENCES = 400; // Ranking is quadratic; later sentences are left out of very long texts
+const MIN_SENTENCE_WORDS = 6;
+const MAX_SENTENCE_WORDS = 80;
+
+const DAMPING = 0.85;
+const MAX_ITERATIONS = 50;
+const CONVERGENCE = 1e-4;
+
+// Blocks whose text is prose (headings and code rarely make good summary sentences)
+const PARAGRAPH_SELECTOR = 'p, li, blockquote, dd, td';
+
+// Function words in English and Portuguese, ignored when comparing sentences
+export const STOPWORDS = new Set([
+  'the', 'and', 'for', 'that', 'this', 'with', 'are', 'was', 'were', 'but', 'not', 'you', 'your', 'from', 'have', 'has',
+  'had', 'they', 'their', 'them', 'its', 'our', 'can', 'will', 'would', 'there', 'what', 'which', 'when', 'who', 'been',
+  'into', 'than', 'then', 'also', 'more', 'about', 'all', 'one', 'some', 'just', 'how', 'out', 'his', 'her', 'she',
+  'que', 'para', 'com', 'uma', 'por', 'mais', 'como', 'mas', 'foi', 'ser', 'são', 'tem', 'dos', 'das', 'nos', 'nas',
+  'ele', 'ela', 'seu', 'sua', 'isso', 'este', 'esta', 'esse', 'essa', 'pelo', 'pela', 'quando', 'muito', 'também', 'não',
+]);
+
+export interface ContentSummary {
+  summary: string | null;
+  keySentences: string[];
+}
+
+interface Sentence {
+  text: string;
+  words: Set<string>;
+  order: number;
+}
+
+/**
+ * Extractive summary of stored content (HTML or plain text) using TextRank:
+ * sentences are ranked by how much vocabulary they share with the rest of
+ * the text, and the best ones are kept in reading order. Runs locally.
+ * Returns a null summary when the text is too short to summarize.
+ */
+export function summarizeContent(content: string | null | undefined): ContentSummary {
+  const sentences = content ? extractSentences(content) : [];
+  if (sentences.length < MIN_SENTENCES) {
+    return { summary: null, keySentences: [] };
+  }
+
+  const scores = rankSentences(sentences);
+  const ranked = sentences
+    .map((sentence, index) => ({ sentence, score: scores[index] }))
+    .sort((a, b) => b.score - a.score || a.sentence.order - b.sentence.order)
+    .map(({ sentence }) => sentence);
+
+  const inOrder = (count: number) =>
+    ranked
+      .slice(0, count)
+      .sort((a, b) => a.order - b.order)
+      .map(sentence => sentence.text);
+
+  return {
+    summary: inOrder(SUMMARY_SENTENCES).join(' '),
+    keySentences: inOrder(KEY_SENTENCES),
+  };
+}
+
+function extractSentences(content: string): Sentence[] {
+  const sentences: Sentence[] = [];
+
+  for (const paragraph of extractParagraphs(content)) {
+    const tokens = paragraph.split(/\s+/).filter(Boolean).map(text => ({ text }));
+
+    for (const sentence of splitSentences(tokens)) {
+      if (sentence.length < MIN_SENTENCE_WORDS || sentence.length > MAX_SENTENCE_WORDS) {
+        continue;
+      }
+      const text = sentence.map(token => token.text).join(' ');
+      const words = (text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? []).filter(
+        word => word.length > 2 && !STOPWORDS.has(word)
+      );
+      sentences.push({ text, words: new Set(words), order: sentences.length });
+
+      if (sentences.length === MAX_SENTENCES) {
+        return sentences;
+      }
+    }
+  }
+
+  return sentences;
+}
+
+/**
+ * Text of each prose block; plain text is split on blank lines
+ */
+function extractParagraphs(content: string): string[] {
+  if (!/<[a-z][\s\S]*>/i.test(content)) {
+    return content.split(/\n\s*\n/);
+  }
+
+  const fragment = JSDOM.fragment(`<div>${content}</div>`);
+  const blocks = Array.from(fragment.querySelectorAll(PARAGRAPH_SELECTOR))
+    // The innermost block holds the text (li > p is read once, as the p)
+    .filter(block => !block.querySelector(PARAGRAPH_SELECTOR) && !block.closest('pre'));
+
+  if (blocks.length === 0) {
+    return [fragment.textContent || ''];
+  }
+  return blocks.map(block => block.textContent || '');
+}
+
+/**
+ * PageRank over the sentence similarity graph
+ */
+function rankSentences(sentences: Sentence[]): number[] {
+  const count = sentences.length;
+  const weights: number[][] = sentences.map(() => new Array<number>(count).fill(0));
+  const totals = new Array<number>(count).fill(0);
+
+  for (let i = 0; i < count; i++) {
+    for (let j = i + 1; j < count; j++) {
+      const weight = similarity(sentences[i].words, sentences[j].words);
+      weights[i][j] = weight;
+      weights[j][i] = weight;
+      totals[i] += weight;
+      totals[j] += weight;
+    }
+  }
+
+  let scores = new Array<number>(count).fill(1 / count);
+  for (let iteration = 0; iteration < MAX_ITERATIONS; iteration++) {
+    const next = scores.map((_, i) => {
+      let rank = 0;
+      for (let j = 0; j < count; j++) {
+        if (weights[j][i] > 0) {
+          rank += (weights[j][i] / totals[j]) * scores[j];
+        }
+      }
+      return (1 - DAMPING) / count + DAMPING * rank;
+    });
+
+    const delta = next.reduce((sum, score, i) => sum + Math.abs(score - scores[i]), 0);
+    scores = next;
+    if (delta < CONVERGENCE) {
+      break;
+    }
+  }
+
+  return scores;
+}
+
+/**
+ * Shared words normalized by sentence length, as in the TextRank paper
+ */
+function similarity(a: Set<string>, b: Set<string>): number {
+  if (a.size < 2 || b.size < 2) {
+    return 0;
+  }
+
+  let shared = 0;
+  for (const word of a) {
+    if (b.has(word)) {
+      shared++;
+    }
+  }
+  return shared / (Math.log(a.size) + Math.log(b.size));
+}
@@ -0,0 +1,215 @@
+import type { Article } from '@prisma/client';
+import { prisma } from '../config/prisma';
+import { htmlToPlainText } from './contentExtractor';
+import { STOPWORDS } from './summarizer';
+
+export const DEFAULT_SUGGESTION_LIMIT = 10;
+export const AUTO_APPLY_CONFIDENCE = 0.8;
+
+const LIBRARY_SAMPLE = 2000; // Most recent articles used for document frequencies
+const TITLE_WEIGHT = 3; // A word in the title counts as this many in the body
+const EXISTING_TAG_BOOST = 1.5;
+const HIGH_CONFIDENCE_SCORE = 8; // TF-IDF score that maps to confidence 1
+const MIN_KEYWORD_COUNT = 2; // New tags are only proposed for terms that repeat
+
+// Words too generic to make useful tags, on top of the summarizer's stopwords
+const GENERIC_WORDS = new Set([
+  'said', 'says', 'like', 'new', 'make', 'made', 'get', 'got', 'use', 'used', 'using', 'way', 'time', 'year', 'years',
+  'people', 'thing', 'things', 'first', 'two', 'many', 'much', 'even', 'well', 'could', 'should', 'may', 'might', 'now',
+  'here', 'these', 'those', 'other', 'only', 'very', 'still', 'over', 'after', 'before', 'where', 'while', 'because',
+  'sobre', 'ainda', 'pode', 'fazer', 'ano', 'anos', 'entre', 'depois', 'antes', 'onde', 'porque', 'cada', 'outro', 'outra',
+]);
+
+export interface TagSuggestion {
+  name: string;
+  tagId: string | null; // Set when the suggestion is one of the user's tags
+  confidence: number; // 0-1
+}
+
+type SuggestableArticle = Pick<Article, 'id' | 'userId' | 'title' | 'description' | 'content'>;
+
+/**
+ * Propose tags for an article by TF-IDF: terms frequent in the article but
+ * rare across the user's library score highest. The user's existing tags
+ * (of one or two words) found in the text come before any new keyword;
+ * tags the article already has are left out.
+ */
+export async function suggestTags(article: SuggestableArticle, limit = DEFAULT_SUGGESTION_LIMIT): Promise<TagSuggestion[]> {
+  const counts = countTerms(article);
+  if (counts.size === 0) {
+    return [];
+  }
+
+  const [tags, applied, library] = await Promise.all([
+    prisma.tag.findMany({ where: { userId: article.userId }, select: { id: true, name: true } }),
+    prisma.articleTag.findMany({ where: { articleId: article.id }, select: { tagId: true } }),
+    // Titles, descriptions and summaries are enough to tell common terms from rare ones
+    prisma.article.findMany({
+      where: { userId: article.userId, deletedAt: null, id: { not: article.id } },
+      select: { title: true, description: true, summary: true },
+      orderBy: { createdAt: 'desc' },
+      take: LIBRARY_SAMPLE,
+    }),
+  ]);
+
+  const documentFrequency = new Map<string, number>();
+  for (const document of library) {
+    const text = [document.title, document.description, document.summary].filter(Boolean).join(' ');
+    for (const term of new Set(extractTerms(plainText(text)).map(term => term.key))) {
+      documentFrequency.set(term, (documentFrequency.get(term) ?? 0) + 1);
+    }
+  }
+
+  const score = (key: string) => {
+    const count = counts.get(key)?.count ?? 0;
+    if (count === 0) {
+      return 0;
+    }
+    const idf = Math.log((library.length + 1) / ((documentFrequency.get(key) ?? 0) + 1)) + 1;
+    return (1 + Math.log(count)) * idf;
+  };
+  const confidence = (value: number) => Math.round(Math.min(1, value / HIGH_CONFIDENCE_SCORE) * 100) / 100;
+
+  const appliedIds = new Set(applied.map(link => link.tagId));
+  // Terms an existing tag already covers, including the words of two-word tags
+  const coveredKeys = new Set<string>();
+  const ranked: Array<TagSuggestion & { score: number }> = [];
+
+  for (const tag of tags) {
+    const key = extractTerms(tag.name, true)[0]?.key;
+    if (!key) {
+      continue;
+    }
+    coveredKeys.add(key);
+    key.split(' ').forEach(word => coveredKeys.add(word));
+
+    const value = score(key) * EXISTING_TAG_BOOST;
+    if (value > 0 && !appliedIds.has(tag.id)) {
+      ranked.push({ name: tag.name, tagId: tag.id, confidence: confidence(value), score: value });
+    }
+  }
+
+  for (const [key, term] of counts) {
+    if (coveredKeys.has(key) || term.count < MIN_KEYWORD_COUNT) {
+      continue;
+    }
+    const value = score(key);
+    ranked.push({ name: term.name, tagId: null, confidence: confidence(value), score: value });
+  }
+
+  return ranked
+    .sort((a, b) => Number(b.tagId !== null) - Number(a.tagId !== null) || b.score - a.score)
+    .slice(0, limit)
+    .map(({ score: _score, ...suggestion }) => suggestion);
+}
+
+/**
+ * Whether new articles of this user get tags applied automatically
+ */
+export async function shouldAutoTag(userId: string): Promise<boolean> {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { autoTagArticles: true },
+  });
+  return user?.autoTagArticles ?? false;
+}
+
+/**
+ * Add the existing tags suggested with high confidence to the article.
+ * New keywords are never turned into tags automatically.
+ */
+export async function autoApplyTags(article: SuggestableArticle): Promise<string[]> {
+  const tagIds = (await suggestTags(article))
+    .filter(suggestion => suggestion.tagId && suggestion.confidence >= AUTO_APPLY_CONFIDENCE)
+    .map(suggestion => suggestion.tagId!);
+
+  if (tagIds.length > 0) {
+    await prisma.articleTag.createMany({
+      data: tagIds.map(tagId => ({ articleId: article.id, tagId })),
+      skipDuplicates: true,
+    });
+  }
+
+  return tagIds;
+}
+
+/**
+ * Occurrences of each unigram and bigram in the article, title weighted
+ */
+function countTerms(article: SuggestableArticle): Map<string, { name: string; count: number }> {
+  const counts = new Map<string, { name: string; count: number; forms: Map<string, number> }>();
+
+  const add = (text: string | null, weight: number) => {
+    if (!text) {
+      return;
+    }
+    for (const term of extractTerms(plainText(text))) {
+      const entry = counts.get(term.key) ?? { name: term.name, count: 0, forms: new Map<string, number>() };
+      entry.count += weight;
+      entry.forms.set(term.name, (entry.forms.get(term.name) ?? 0) + weight);
+      counts.set(term.key, entry);
+    }
+  };
+
+  add(article.title, TITLE_WEIGHT);
+  add(article.description, 1);
+  add(article.content, 1);
+
+  // Suggest each term in the spelling it most often has
+  return new Map(
+    Array.from(counts, ([key, entry]) => {
+      const name = Array.from(entry.forms).sort((a, b) => b[1] - a[1])[0][0];
+      return [key, { name, count: entry.count }];
+    })
+  );
+}
+
+/**
+ * Unigrams and bigrams of content words. key is the comparable form
+ * (lowercase, plural "s" dropped); name keeps the surface form. With
+ * whole, the text becomes a single term (used for tag names).
+ */
+function extractTerms(text: string, whole = false): Array<{ key: string; name: string }> {
+  const words = (text.match(/[\p{L}\p{N}]+(?:['’-][\p{L}\p{N}]+)*/gu) ?? []).map(word => ({
+    name: word.toLowerCase(),
+    key: stem(word.toLowerCase()),
+  }));
+
+  if (whole) {
+    return words.length > 0
+      ? [{ key: words.map(word => word.key).join(' '), name: words.map(word => word.name).join(' ') }]
+      : [];
+  }
+
+  const terms: Array<{ key: string; name: string }> = [];
+  let previous: { key: string; name: string } | null = null;
+
+  for (const word of words) {
+    if (!isContentWord(word.name)) {
+      previous = null;
+      continue;
+    }
+    terms.push(word);
+    if (previous) {
+      terms.push({ key: `${previous.key} ${word.key}`, name: `${previous.name} ${word.name}` });
+    }
+    previous = word;
+  }
+
+  return terms;
+}
+
+/**
+ * Text of stored HTML with adjacent blocks kept apart ("</h2><p>" would glue their words)
+ */
+function plainText(html: string): string {
+  return htmlToPlainText(html.replace(/></g, '> <'));
+}
+
+function isContentWord(word: string): boolean {
+  return word.length > 2 && !/^\d+$/.test(word) && !STOPWORDS.has(word) && !GENERIC_WORDS.has(word);
+}
+
+function stem(word: string): string {
+  return word.length > 4 && word.endsWith('s') && !word.endsWith('ss') ? word.slice(0, -1) : word;
+}
@@ -0,0 +1,317 @@
+import type { Article, Prisma } from '@prisma/client';
+import { prisma } from '../config/prisma';
+import { env } from '../config/env';
+import { deleteFile } from './storage';
+import { releaseArticleImages } from './imageArchiver';
+
+export type TrashItemType = 'article' | 'collection' | 'highlight' | 'note';
+
+export type RestoreResult =
+  | { status: 'restored'; type: TrashItemType; item: unknown }
+  | { status: 'not_found' }
+  | { status: 'parent_in_trash'; parentId: string };
+
+const PURGE_BATCH_SIZE = 100;
+const DAY = 24 * 60 * 60 * 1000;
+
+let purgerTimer: NodeJS.Timeout | null = null;
+
+/*
+ * Deleting moves items to the trash by setting deletedAt. Children deleted
+ * along with their parent (an article's highlights and notes, a highlight's
+ * notes) get the parent's exact timestamp, so restoring the parent brings
+ * back those and not the ones that were already in the trash.
+ */
+
+/**
+ * Move articles to the trash together with their highlights and notes
+ */
+export async function trashArticles(articleIds: string[]): Promise<void> {
+  const deletedAt = new Date();
+
+  await prisma.$transaction([
+    prisma.article.updateMany({
+      where: { id: { in: articleIds }, deletedAt: null },
+      data: { deletedAt },
+    }),
+    prisma.highlight.updateMany({
+      where: { articleId: { in: articleIds }, deletedAt: null },
+      data: { deletedAt },
+    }),
+    prisma.note.updateMany({
+      where: { articleId: { in: articleIds }, deletedAt: null },
+      data: { deletedAt },
+    }),
+  ]);
+}
+
+/**
+ * Move highlights to the trash together with their notes
+ */
+export async function trashHighlights(where: Prisma.HighlightWhereInput): Promise<void> {
+  const deletedAt = new Date();
+  const highlights = await prisma.highlight.findMany({
+    where: { ...where, deletedAt: null },
+    select: { id: true },
+  });
+  const highlightIds = highlights.map(highlight => highlight.id);
+
+  await prisma.$transaction([
+    prisma.highlight.updateMany({
+      where: { id: { in: highlightIds } },
+      data: { deletedAt },
+    }),
+    prisma.note.updateMany({
+      where: { highlightId: { in: highlightIds }, deletedAt: null },
+      data: { deletedAt },
+    }),
+  ]);
+}
+
+export async function trashCollection(collectionId: string): Promise<void> {
+  await prisma.collection.update({
+    where: { id: collectionId },
+    data: { deletedAt: new Date() },
+  });
+}
+
+export async function trashNote(noteId: string): Promise<void> {
+  await prisma.note.update({
+    where: { id: noteId },
+    data: { deletedAt: new Date() },
+  });
+}
+
+/**
+ * Take an article out of the trash, with the highlights and notes trashed along with it
+ */
+export async function restoreArticle(article: Pick<Article, 'id' | 'deletedAt'>): Promise<Article> {
+  const [restored] = await prisma.$transaction([
+    prisma.article.update({
+      where: { id: article.id },
+      data: { deletedAt: null },
+    }),
+    prisma.highlight.updateMany({
+      where: { articleId: article.id, deletedAt: article.deletedAt },
+      data: { deletedAt: null },
+    }),
+    prisma.note.updateMany({
+      where: { articleId: article.id, deletedAt: article.deletedAt },
+      data: { deletedAt: null },
+    }),
+  ]);
+
+  return restored;
+}
+
+/**
+ * Items in the user's trash, newest first. Highlights and notes trashed
+ * with their article (or highlight) are listed through it, not separately.
+ */
+export async function listTrash(userId: string, type?: TrashItemType) {
+  const retention = env.trashRetentionDays * DAY;
+  const purgeAt = (deletedAt: Date) => new Date(deletedAt.getTime() + retention);
+
+  const [articles, collections, highlights, notes] = await Promise.all([
+    !type || type === 'article'
+      ? prisma.article.findMany({
+          where: { userId, deletedAt: { not: null } },
+          select: {
+            id: true,
+            title: true,
+            url: true,
+            fileName: true,
+            contentType: true,
+            deletedAt: true,
+            _count: { select: { highlights: true, notes: true } },
+          },
+        })
+      : [],
+    !type || type === 'collection'
+      ? prisma.collection.findMany({
+          where: { userId, deletedAt: { not: null } },
+          select: { id: true, name: true, deletedAt: true },
+        })
+      : [],
+    !type || type === 'highlight'
+      ? prisma.highlight.findMany({
+          where: { userId, deletedAt: { not: null }, article: { deletedAt: null } },
+          select: { id: true, text: true, articleId: true, deletedAt: true },
+        })
+      : [],
+    !type || type === 'note'
+      ? prisma.note.findMany({
+          where: {
+            userId,
+            deletedAt: { not: null },
+            article: { deletedAt: null },
+            OR: [{ highlightId: null }, { highlight: { deletedAt: null } }],
+          },
+          select: { id: true, content: true, articleId: true, highlightId: true, deletedAt: true },
+        })
+      : [],
+  ]);
+
+  const items = [
+    ...articles.map(item => ({ type: 'article' as const, ...item })),
+    ...collections.map(item => ({ type: 'collection' as const, ...item })),
+    ...highlights.map(item => ({ type: 'highlight' as const, ...item })),
+    ...notes.map(item => ({ type: 'note' as const, ...item })),
+  ].map(item => ({ ...item, purgeAt: purgeAt(item.deletedAt!) }));
+
+  return items.sort((a, b) => b.deletedAt!.getTime() - a.deletedAt!.getTime());
+}
+
+/**
+ * Restore any trashed item by ID. Highlights and notes can only come back
+ * once the article (or highlight) they belong to is out of the trash.
+ */
+export async function restoreFromTrash(userId: string, id: string): Promise<RestoreResult> {
+  const inTrash = { id, userId, deletedAt: { not: null } };
+
+  const article = await prisma.article.findFirst({ where: inTrash });
+  if (article) {
+    return { status: 'restored', type: 'article', item: await restoreArticle(article) };
+  }
+
+  const collection = await prisma.collection.findFirst({ where: inTrash });
+  if (collection) {
+    const item = await prisma.collection.update({
+      where: { id },
+      data: { deletedAt: null },
+    });
+    return { status: 'restored', type: 'collection', item };
+  }
+
+  const highlight = await prisma.highlight.findFirst({
+    where: inTrash,
+    include: { article: { select: { deletedAt: true } } },
+  });
+  if (highlight) {
+    if (highlight.article.deletedAt) {
+      return { status: 'parent_in_trash', parentId: highlight.articleId };
+    }
+    const [item] = await prisma.$transaction([
+      prisma.highlight.update({
+        where: { id },
+        data: { deletedAt: null },
+      }),
+      prisma.note.updateMany({
+        where: { highlightId: id, deletedAt: highlight.deletedAt },
+        data: { deletedAt: null },
+      }),
+    ]);
+    return { status: 'restored', type: 'highlight', item };
+  }
+
+  const note = await prisma.note.findFirst({
+    where: inTrash,
+    include: {
+      article: { select: { deletedAt: true } },
+      highlight: { select: { deletedAt: true } },
+    },
+  });
+  if (note) {
+    if (note.article.deletedAt) {
+      return { status: 'parent_in_trash', parentId: note.articleId };
+    }
+    if (note.highlightId && note.highlight?.deletedAt) {
+      return { status: 'parent_in_trash', parentId: note.highlightId };
+    }
+    const item = await prisma.note.update({
+      where: { id },
+      data: { deletedAt: null },
+    });
+    return { status: 'restored', type: 'note', item };
+  }
+
+  return { status: 'not_found' };
+}
+
+/**
+ * Start permanently deleting items that have been in the trash longer
+ * than the retention period
+ */
+export function startTrashPurger(): void {
+  if (purgerTimer) {
+    return;
+  }
+
+  const tick = async () => {
+    try {
+      const purged = await purgeTrash(new Date(Date.now() - env.trashRetentionDays * DAY));
+      if (purged.articles + purged.collections + purged.highlights + purged.notes > 0) {
+        console.log('Trash purged:', purged);
+      }
+    } catch (error) {
+      console.error('Trash purger error:', error);
+    } finally {
+      purgerTimer = setTimeout(tick, env.trashPurgeInterval);
+    }
+  };
+
+  purgerTimer = setTimeout(tick, 0);
+}
+
+/**
+ * Permanently delete items trashed before the cutoff. This is the only
+ * place stored files are removed.
+ */
+export async function purgeTrash(cutoff: Date) {
+  const expired = { deletedAt: { lt: cutoff } };
+  let articles = 0;
+
+  while (true) {
+    const batch = await prisma.article.findMany({
+      where: expired,
+      select: { id: true, fileUrl: true, snapshotUrl: true },
+      take: PURGE_BATCH_SIZE,
+    });
+
+    if (batch.length === 0) {
+      break;
+    }
+
+    for (const article of batch) {
+      try {
+        await deleteArticleFiles(article);
+      } catch (error) {
+        // File cleanup is best effort; a failure must not keep the batch in the trash
+        console.error(`Error deleting files of article ${article.id}:`, error);
+      }
+    }
+
+    const deleted = await prisma.article.deleteMany({
+      where: { id: { in: batch.map(article => article.id) } },
+    });
+    articles += deleted.count;
+  }
+
+  // Highlights and notes of purged articles went with them through the cascade
+  const [collections, highlights, notes] = await prisma.$transaction([
+    prisma.collection.deleteMany({ where: expired }),
+    prisma.highlight.deleteMany({ where: expired }),
+    prisma.note.deleteMany({ where: expired }),
+  ]);
+
+  return {
+    articles,
+    collections: collections.count,
+    highlights: highlights.count,
+    notes: notes.count,
+  };
+}
+
+/**
+ * Remove an article's files from R2: upload, page snapshot and the
+ * archived images no other article uses
+ */
+async function deleteArticleFiles(article: Pick<Article, 'id' | 'fileUrl' | 'snapshotUrl'>): Promise<void> {
+  if (article.fileUrl) {
+    await deleteFile(article.fileUrl);
+  }
+  if (article.snapshotUrl) {
+    await deleteFile(article.snapshotUrl);
+  }
+  await releaseArticleImages(article.id);
+}
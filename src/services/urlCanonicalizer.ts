@@ -0,0 +1,140 @@
+// Query parameters that only track where a click came from
+const TRACKING_PARAMS = new Set([
+  'fbclid', 'gclid', 'dclid', 'gbraid', 'wbraid', 'msclkid', 'yclid', 'twclid', 'igshid',
+  'mc_cid', 'mc_eid', '_hsenc', '_hsmi', 'mkt_tok', 'vero_id', 'oly_anon_id', 'oly_enc_id',
+  'rb_clickid', 's_cid', 'cmpid', '_ga', '_gl', 'spm', 'ref_src', 'ref_url',
+  '__twitter_impression', 'ncid', 'sr_share',
+]);
+const TRACKING_PREFIXES = ['utm_', 'pk_', 'mtm_'];
+
+// Generic names that only track on some hosts; elsewhere they can select
+// content (GitHub's ?ref= picks a branch). Hosts are matched after
+// normalization, so youtu.be links count as youtube.com
+const HOST_TRACKING_PARAMS: Record<string, Set<string>> = {
+  'youtube.com': new Set(['si']),
+  'open.spotify.com': new Set(['si']),
+};
+
+// Query parameters that switch a page to its AMP variant
+const AMP_PARAMS = new Set(['amp', 'outputtype']);
+
+// Leading host labels that serve the same content as the bare domain
+const HOST_PREFIXES = ['www.', 'm.', 'mobile.', 'amp.'];
+
+/**
+ * Reduce a URL to a canonical form, so variants of the same page
+ * (tracking params, http/https, www./m. hosts, AMP, trailing slash) match.
+ * Non-HTTP(S) or unparsable values are returned trimmed but otherwise unchanged.
+ */
+export function canonicalizeUrl(value: string): string {
+  const trimmed = value.trim();
+
+  let url: URL;
+  try {
+    url = new URL(trimmed);
+  } catch {
+    return trimmed;
+  }
+
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    return trimmed;
+  }
+
+  const unwrapped = unwrapAmpCache(url);
+  if (unwrapped) {
+    return canonicalizeUrl(unwrapped);
+  }
+
+  url.protocol = 'https:';
+  url.username = '';
+  url.password = '';
+  url.port = '';
+  url.hostname = normalizeHost(url.hostname);
+
+  // youtu.be/<id> is a short link to the watch page
+  if (url.hostname === 'youtu.be' && url.pathname.length > 1) {
+    const videoId = url.pathname.slice(1);
+    url.hostname = 'youtube.com';
+    url.pathname = '/watch';
+    url.searchParams.set('v', videoId);
+  }
+
+  url.pathname = normalizePath(url.pathname);
+
+  const params = Array.from(url.searchParams.entries())
+    .filter(([key]) => !isTrackingParam(key, url.hostname) && !AMP_PARAMS.has(key.toLowerCase()))
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+  url.search = new URLSearchParams(params).toString();
+
+  // Fragments only matter for hash-routed apps (#/ or #!)
+  if (!url.hash.startsWith('#/') && !url.hash.startsWith('#!')) {
+    url.hash = '';
+  }
+
+  return url.toString();
+}
+
+function isTrackingParam(key: string, hostname: string): boolean {
+  const name = key.toLowerCase();
+  return (
+    TRACKING_PARAMS.has(name) ||
+    TRACKING_PREFIXES.some(prefix => name.startsWith(prefix)) ||
+    (HOST_TRACKING_PARAMS[hostname]?.has(name) ?? false)
+  );
+}
+
+function normalizeHost(hostname: string): string {
+  let host = hostname.toLowerCase().replace(/\.$/, '');
+
+  for (const prefix of HOST_PREFIXES) {
+    // Keep at least a registrable domain (example.com, not just com)
+    if (host.startsWith(prefix) && host.slice(prefix.length).includes('.')) {
+      host = host.slice(prefix.length);
+      break;
+    }
+  }
+
+  return host;
+}
+
+function normalizePath(pathname: string): string {
+  let path = pathname
+    .replace(/\/{2,}/g, '/')
+    // AMP variants: /post/amp, /amp/post, /post.amp.html
+    .replace(/\/amp\/?$/i, '/')
+    .replace(/^\/amp\//i, '/')
+    .replace(/\.amp\.html$/i, '.html');
+
+  if (path.length > 1 && path.endsWith('/')) {
+    path = path.slice(0, -1);
+  }
+
+  return path || '/';
+}
+
+/**
+ * Google AMP viewer and AMP cache URLs embed the publisher URL:
+ * google.com/amp/s/example.com/post, example-com.cdn.ampproject.org/c/s/example.com/post
+ */
+function unwrapAmpCache(url: URL): string | null {
+  const host = url.hostname.toLowerCase();
+  let rest: string | null = null;
+
+  if (/^(www\.)?google\.[a-z.]+$/.test(host) && url.pathname.startsWith('/amp/')) {
+    rest = url.pathname.slice('/amp/'.length);
+  } else if (host.endsWith('.cdn.ampproject.org')) {
+    rest = url.pathname.replace(/^\/[a-z]\//, '');
+  }
+
+  if (!rest) {
+    return null;
+  }
+
+  // "s/" marks an https origin
+  const target = rest.startsWith('s/') ? `https://${rest.slice(2)}` : `http://${rest}`;
+  try {
+    return new URL(target + url.search).toString();
+  } catch {
+    return null;
+  }
+}